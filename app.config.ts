@@ -0,0 +1,32 @@
+import { ConfigContext, ExpoConfig } from 'expo/config';
+
+// Universal and app links are verified against the host links are shared from, so
+// they're built from the same EXPO_PUBLIC_WEB_URL that src/config/env.ts reads
+const WEB_URL = process.env.EXPO_PUBLIC_WEB_URL || 'https://flavorfinder.app';
+const LINK_PATHS = ['/restaurant', '/favorites'];
+
+export default ({ config }: ConfigContext): ExpoConfig => {
+  const { host, pathname } = new URL(WEB_URL);
+  const basePath = pathname.replace(/\/$/, '');
+
+  return {
+    ...config,
+    name: config.name,
+    slug: config.slug,
+    ios: {
+      ...config.ios,
+      associatedDomains: [`applinks:${host}`],
+    },
+    android: {
+      ...config.android,
+      intentFilters: [
+        {
+          action: 'VIEW',
+          autoVerify: true,
+          data: LINK_PATHS.map(path => ({ scheme: 'https', host, pathPrefix: `${basePath}${path}` })),
+          category: ['BROWSABLE', 'DEFAULT'],
+        },
+      ],
+    },
+  };
+};
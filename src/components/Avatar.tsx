@@ -0,0 +1,59 @@
+import React from 'react';
+import { Image, StyleSheet, Text, View } from 'react-native';
+
+interface AvatarProps {
+  name?: string;
+  uri?: string;
+  size?: number;
+}
+
+const COLORS = ['#ff6b6b', '#f39c12', '#2ecc71', '#3498db', '#9b59b6', '#1abc9c', '#e67e22'];
+
+export const getInitials = (name = '') => {
+  const words = name.trim().split(/[\s._-]+/).filter(Boolean);
+  if (words.length === 0) {
+    return '?';
+  }
+  if (words.length === 1) {
+    return words[0].slice(0, 2).toUpperCase();
+  }
+  return (words[0][0] + words[1][0]).toUpperCase();
+};
+
+// The same name always gets the same colour
+const colorFor = (name: string) => {
+  let hash = 0;
+  for (let i = 0; i < name.length; i++) {
+    hash = (hash * 31 + name.charCodeAt(i)) | 0;
+  }
+  return COLORS[Math.abs(hash) % COLORS.length];
+};
+
+// A picked photo, or the user's initials on a coloured circle
+export default function Avatar({ name = '', uri, size = 100 }: AvatarProps) {
+  const shape = { width: size, height: size, borderRadius: size / 2 };
+
+  if (uri) {
+    return <Image source={{ uri }} style={[styles.image, shape]} />;
+  }
+
+  return (
+    <View style={[styles.initials, shape, { backgroundColor: colorFor(name) }]}>
+      <Text style={[styles.initialsText, { fontSize: size * 0.4 }]}>{getInitials(name)}</Text>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  image: {
+    backgroundColor: '#f8f9fa',
+  },
+  initials: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  initialsText: {
+    color: '#fff',
+    fontWeight: 'bold',
+  },
+});
@@ -0,0 +1,60 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+interface OfflineBannerProps {
+  // When the data on screen was fetched
+  storedAt?: number;
+  onRetry?: () => void;
+}
+
+const formatAge = (storedAt: number) => {
+  const minutes = Math.round((Date.now() - storedAt) / 60000);
+  if (minutes < 60) {
+    return `${Math.max(minutes, 1)} min ago`;
+  }
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) {
+    return `${hours} hr ago`;
+  }
+  const days = Math.round(hours / 24);
+  return `${days} day${days === 1 ? '' : 's'} ago`;
+};
+
+export default function OfflineBanner({ storedAt, onRetry }: OfflineBannerProps) {
+  return (
+    <View style={styles.container}>
+      <Ionicons name="cloud-offline-outline" size={18} color="#fff" />
+      <Text style={styles.text}>
+        You're offline. Showing saved results{storedAt ? ` from ${formatAge(storedAt)}` : ''}.
+      </Text>
+      {onRetry && (
+        <TouchableOpacity onPress={onRetry}>
+          <Text style={styles.retry}>Retry</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#555',
+    paddingVertical: 8,
+    paddingHorizontal: 15,
+  },
+  text: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 13,
+    marginLeft: 8,
+  },
+  retry: {
+    color: '#fff',
+    fontSize: 13,
+    fontWeight: 'bold',
+    marginLeft: 10,
+  },
+});
@@ -0,0 +1,38 @@
+import React from 'react';
+import { StyleProp, StyleSheet, Text, TextStyle } from 'react-native';
+import { DetailedRestaurant } from '../types/restaurant';
+import { useOpenStatus } from '../hooks/useOpenStatus';
+import { formatOpenStatus, OpenState } from '../utils/openingHours';
+
+interface OpenStatusLabelProps {
+  restaurant: DetailedRestaurant;
+  load?: boolean;
+  style?: StyleProp<TextStyle>;
+}
+
+const STATE_COLORS: Record<OpenState, string> = {
+  open: '#4CAF50',
+  closes_soon: '#F5A623',
+  closed: '#e74c3c',
+};
+
+// Renders nothing when there's no way to tell whether the place is open
+export default function OpenStatusLabel({ restaurant, load, style }: OpenStatusLabelProps) {
+  const status = useOpenStatus(restaurant, { load });
+  if (!status) {
+    return null;
+  }
+
+  return (
+    <Text style={[styles.label, { color: STATE_COLORS[status.state] }, style]}>
+      {formatOpenStatus(status)}
+    </Text>
+  );
+}
+
+const styles = StyleSheet.create({
+  label: {
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+});
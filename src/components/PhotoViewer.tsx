@@ -0,0 +1,332 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  Image,
+  Modal,
+  FlatList,
+  StyleSheet,
+  TouchableOpacity,
+  Linking,
+  Dimensions,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+} from 'react-native';
+import { Gesture, GestureDetector, GestureHandlerRootView } from 'react-native-gesture-handler';
+import Animated, {
+  interpolate,
+  runOnJS,
+  SharedValue,
+  useAnimatedStyle,
+  useSharedValue,
+  withSpring,
+  withTiming,
+} from 'react-native-reanimated';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { RestaurantPhoto } from '../types/restaurant';
+
+const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
+const MAX_SCALE = 4;
+const DOUBLE_TAP_SCALE = 2;
+const DISMISS_DISTANCE = 120;
+const DISMISS_VELOCITY = 1000;
+
+interface PhotoViewerProps {
+  photos: RestaurantPhoto[];
+  visible: boolean;
+  initialIndex?: number;
+  onClose: () => void;
+  // Called as the user pages, so the gallery behind can follow along
+  onIndexChange?: (index: number) => void;
+}
+
+interface ZoomablePhotoProps {
+  photo: RestaurantPhoto;
+  // Only the page on screen fetches its full-size image
+  active: boolean;
+  dismissY: SharedValue<number>;
+  onZoomChange: (zoomed: boolean) => void;
+  onDismiss: () => void;
+}
+
+function ZoomablePhoto({
+  photo,
+  active,
+  dismissY,
+  onZoomChange,
+  onDismiss,
+}: ZoomablePhotoProps) {
+  const [zoomed, setZoomed] = useState(false);
+  const [loadFull, setLoadFull] = useState(false);
+  const [fullLoaded, setFullLoaded] = useState(false);
+  const scale = useSharedValue(1);
+  const savedScale = useSharedValue(1);
+  const translateX = useSharedValue(0);
+  const translateY = useSharedValue(0);
+  const savedTranslateX = useSharedValue(0);
+  const savedTranslateY = useSharedValue(0);
+
+  // Once requested, keep the full-size image so paging back doesn't refetch it
+  useEffect(() => {
+    if (active && photo.fullUrl) {
+      setLoadFull(true);
+    }
+  }, [active, photo.fullUrl]);
+
+  const updateZoomed = (value: boolean) => {
+    setZoomed(value);
+    onZoomChange(value);
+  };
+
+  const reset = () => {
+    'worklet';
+    scale.value = withTiming(1);
+    savedScale.value = 1;
+    translateX.value = withTiming(0);
+    translateY.value = withTiming(0);
+    savedTranslateX.value = 0;
+    savedTranslateY.value = 0;
+    runOnJS(updateZoomed)(false);
+  };
+
+  // Keep the zoomed image from being dragged past its edges
+  const clampTranslate = (value: number, size: number, currentScale: number) => {
+    'worklet';
+    const max = (size * (currentScale - 1)) / 2;
+    return Math.min(Math.max(value, -max), max);
+  };
+
+  const pinch = Gesture.Pinch()
+    .onUpdate((e) => {
+      scale.value = Math.min(Math.max(savedScale.value * e.scale, 0.8), MAX_SCALE);
+    })
+    .onEnd(() => {
+      if (scale.value <= 1) {
+        reset();
+        return;
+      }
+      savedScale.value = scale.value;
+      translateX.value = clampTranslate(translateX.value, SCREEN_WIDTH, scale.value);
+      translateY.value = clampTranslate(translateY.value, SCREEN_HEIGHT, scale.value);
+      savedTranslateX.value = translateX.value;
+      savedTranslateY.value = translateY.value;
+      runOnJS(updateZoomed)(true);
+    });
+
+  // Zoomed in, dragging moves the photo around. At normal size only vertical drags
+  // are claimed (to dismiss), leaving horizontal swipes to the pager.
+  const pan = zoomed
+    ? Gesture.Pan()
+      .averageTouches(true)
+      .onUpdate((e) => {
+        translateX.value = clampTranslate(savedTranslateX.value + e.translationX, SCREEN_WIDTH, scale.value);
+        translateY.value = clampTranslate(savedTranslateY.value + e.translationY, SCREEN_HEIGHT, scale.value);
+      })
+      .onEnd(() => {
+        savedTranslateX.value = translateX.value;
+        savedTranslateY.value = translateY.value;
+      })
+    : Gesture.Pan()
+      .activeOffsetY([-15, 15])
+      .failOffsetX([-15, 15])
+      .onUpdate((e) => {
+        dismissY.value = e.translationY;
+      })
+      .onEnd((e) => {
+        if (Math.abs(e.translationY) > DISMISS_DISTANCE || Math.abs(e.velocityY) > DISMISS_VELOCITY) {
+          runOnJS(onDismiss)();
+        } else {
+          dismissY.value = withSpring(0);
+        }
+      });
+
+  const doubleTap = Gesture.Tap()
+    .numberOfTaps(2)
+    .onEnd(() => {
+      if (savedScale.value > 1) {
+        reset();
+      } else {
+        scale.value = withTiming(DOUBLE_TAP_SCALE);
+        savedScale.value = DOUBLE_TAP_SCALE;
+        runOnJS(updateZoomed)(true);
+      }
+    });
+
+  const gesture = Gesture.Race(doubleTap, Gesture.Simultaneous(pinch, pan));
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    transform: [
+      { translateX: translateX.value },
+      { translateY: translateY.value + (active ? dismissY.value : 0) },
+      { scale: scale.value },
+    ] as const,
+  }));
+
+  return (
+    <GestureDetector gesture={gesture}>
+      <Animated.View style={[styles.page, animatedStyle]}>
+        <Image source={{ uri: photo.url }} style={styles.image} />
+        {loadFull && (
+          <Image
+            source={{ uri: photo.fullUrl }}
+            style={[styles.image, styles.fullImage, !fullLoaded && styles.hidden]}
+            onLoad={() => setFullLoaded(true)}
+          />
+        )}
+      </Animated.View>
+    </GestureDetector>
+  );
+}
+
+// Full-screen, swipeable photo viewer. Pinch or double-tap to zoom, drag down to close.
+export default function PhotoViewer({
+  photos,
+  visible,
+  initialIndex = 0,
+  onClose,
+  onIndexChange,
+}: PhotoViewerProps) {
+  const insets = useSafeAreaInsets();
+  const [index, setIndex] = useState(initialIndex);
+  const [scrollEnabled, setScrollEnabled] = useState(true);
+  const dismissY = useSharedValue(0);
+
+  useEffect(() => {
+    if (visible) {
+      setIndex(initialIndex);
+      setScrollEnabled(true);
+      dismissY.value = 0;
+    }
+  }, [visible, initialIndex]);
+
+  const handleScrollEnd = (e: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const next = Math.round(e.nativeEvent.contentOffset.x / SCREEN_WIDTH);
+    if (next !== index) {
+      setIndex(next);
+      onIndexChange?.(next);
+    }
+  };
+
+  const backdropStyle = useAnimatedStyle(() => ({
+    opacity: interpolate(Math.abs(dismissY.value), [0, SCREEN_HEIGHT / 2], [1, 0.3], 'clamp'),
+  }));
+
+  const attributions = photos[index]?.attributions ?? [];
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      {/* Modals render outside the app's root view, so gestures need their own */}
+      <GestureHandlerRootView style={styles.container}>
+        <Animated.View style={[StyleSheet.absoluteFill, styles.backdrop, backdropStyle]} />
+
+        <FlatList
+          data={photos}
+          horizontal
+          pagingEnabled
+          scrollEnabled={scrollEnabled}
+          showsHorizontalScrollIndicator={false}
+          initialScrollIndex={initialIndex}
+          getItemLayout={(_, i) => ({ length: SCREEN_WIDTH, offset: SCREEN_WIDTH * i, index: i })}
+          keyExtractor={(item, i) => `${i}-${item.url}`}
+          onMomentumScrollEnd={handleScrollEnd}
+          renderItem={({ item, index: i }) => (
+            <ZoomablePhoto
+              photo={item}
+              active={i === index}
+              dismissY={dismissY}
+              onZoomChange={(zoomed) => setScrollEnabled(!zoomed)}
+              onDismiss={onClose}
+            />
+          )}
+        />
+
+        <View style={[styles.header, { paddingTop: insets.top + 10 }]}>
+          <Text style={styles.counter}>
+            {photos.length > 1 ? `${index + 1} / ${photos.length}` : ''}
+          </Text>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Ionicons name="close" size={28} color="#fff" />
+          </TouchableOpacity>
+        </View>
+
+        {attributions.length > 0 && (
+          <View style={[styles.footer, { paddingBottom: insets.bottom + 15 }]}>
+            <Text style={styles.attributionText}>
+              Photo by{' '}
+              {attributions.map((attribution, i) => (
+                <Text
+                  key={i}
+                  style={attribution.url && styles.attributionLink}
+                  onPress={attribution.url ? () => Linking.openURL(attribution.url) : undefined}
+                >
+                  {i > 0 ? ', ' : ''}{attribution.name}
+                </Text>
+              ))}
+            </Text>
+          </View>
+        )}
+      </GestureHandlerRootView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  backdrop: {
+    backgroundColor: '#000',
+  },
+  page: {
+    width: SCREEN_WIDTH,
+    height: SCREEN_HEIGHT,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  image: {
+    width: SCREEN_WIDTH,
+    height: SCREEN_HEIGHT,
+    resizeMode: 'contain',
+  },
+  fullImage: {
+    position: 'absolute',
+  },
+  hidden: {
+    opacity: 0,
+  },
+  header: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+  },
+  counter: {
+    color: '#fff',
+    fontSize: 16,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  footer: {
+    position: 'absolute',
+    bottom: 0,
+    left: 0,
+    right: 0,
+    paddingHorizontal: 20,
+    paddingTop: 15,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  attributionText: {
+    color: '#ccc',
+    fontSize: 13,
+  },
+  attributionLink: {
+    color: '#fff',
+    textDecorationLine: 'underline',
+  },
+});
@@ -0,0 +1,111 @@
+import React, { useRef, useState } from 'react';
+import { View, StyleSheet, PanResponder, LayoutChangeEvent } from 'react-native';
+
+interface SliderProps {
+  value: number;
+  minimumValue: number;
+  maximumValue: number;
+  step?: number;
+  onValueChange: (value: number) => void;
+}
+
+const THUMB_SIZE = 24;
+
+type SliderRange = Pick<SliderProps, 'minimumValue' | 'maximumValue' | 'step'>;
+
+const clamp = (next: number, { minimumValue, maximumValue }: SliderRange) =>
+  Math.min(maximumValue, Math.max(minimumValue, next));
+
+const toValue = (x: number, width: number, bounds: SliderRange) => {
+  const { minimumValue, maximumValue, step } = bounds;
+  const range = maximumValue - minimumValue;
+  return clamp(minimumValue + Math.round(((x / width) * range) / step) * step, bounds);
+};
+
+const toOffset = (v: number, width: number, { minimumValue, maximumValue }: SliderRange) =>
+  ((v - minimumValue) / (maximumValue - minimumValue)) * width;
+
+export default function Slider({
+  value,
+  minimumValue,
+  maximumValue,
+  step = 1,
+  onValueChange,
+}: SliderProps) {
+  const [trackWidth, setTrackWidth] = useState(0);
+  const startX = useRef(0);
+  const bounds = { minimumValue, maximumValue, step };
+
+  // PanResponder is created once, so read the latest props through a ref. That
+  // includes the bounds, which change e.g. when switching between miles and km.
+  const latest = useRef({ value, trackWidth, bounds, onValueChange });
+  latest.current = { value, trackWidth, bounds, onValueChange };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderGrant: (event) => {
+        const { trackWidth: width, bounds: latestBounds, onValueChange: onChange } = latest.current;
+        startX.current = event.nativeEvent.locationX;
+        if (width > 0) {
+          onChange(toValue(startX.current, width, latestBounds));
+        }
+      },
+      onPanResponderMove: (_, gesture) => {
+        const { value: current, trackWidth: width, bounds: latestBounds, onValueChange: onChange } = latest.current;
+        if (width > 0) {
+          const next = toValue(startX.current + gesture.dx, width, latestBounds);
+          if (next !== current) {
+            onChange(next);
+          }
+        }
+      },
+    })
+  ).current;
+
+  const onLayout = (event: LayoutChangeEvent) => {
+    setTrackWidth(event.nativeEvent.layout.width);
+  };
+
+  const offset = trackWidth > 0 ? toOffset(clamp(value, bounds), trackWidth, bounds) : 0;
+
+  return (
+    <View style={styles.container} onLayout={onLayout} {...panResponder.panHandlers}>
+      <View style={styles.track} pointerEvents="none">
+        <View style={[styles.fill, { width: offset }]} />
+      </View>
+      <View
+        pointerEvents="none"
+        style={[styles.thumb, { left: offset - THUMB_SIZE / 2 }]}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    height: 40,
+    justifyContent: 'center',
+    marginHorizontal: THUMB_SIZE / 2,
+  },
+  track: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#ddd',
+    overflow: 'hidden',
+  },
+  fill: {
+    height: 4,
+    backgroundColor: '#ff6b6b',
+  },
+  thumb: {
+    position: 'absolute',
+    width: THUMB_SIZE,
+    height: THUMB_SIZE,
+    borderRadius: THUMB_SIZE / 2,
+    backgroundColor: '#fff',
+    borderWidth: 2,
+    borderColor: '#ff6b6b',
+  },
+});
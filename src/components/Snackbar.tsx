@@ -0,0 +1,79 @@
+import React, { useEffect, useRef } from 'react';
+import { Animated, StyleSheet, Text, TouchableOpacity } from 'react-native';
+
+interface SnackbarProps {
+  visible: boolean;
+  message: string;
+  actionLabel?: string;
+  onAction?: () => void;
+  onDismiss: () => void;
+  duration?: number;
+}
+
+export default function Snackbar({
+  visible,
+  message,
+  actionLabel,
+  onAction,
+  onDismiss,
+  duration = 4000,
+}: SnackbarProps) {
+  const opacity = useRef(new Animated.Value(0)).current;
+
+  useEffect(() => {
+    Animated.timing(opacity, {
+      toValue: visible ? 1 : 0,
+      duration: 200,
+      useNativeDriver: true,
+    }).start();
+
+    if (!visible) {
+      return;
+    }
+    const timeout = setTimeout(onDismiss, duration);
+    return () => clearTimeout(timeout);
+  }, [visible, message]);
+
+  return (
+    <Animated.View
+      style={[styles.container, { opacity }]}
+      pointerEvents={visible ? 'auto' : 'none'}
+    >
+      <Text style={styles.message}>{message}</Text>
+      {actionLabel && onAction && (
+        <TouchableOpacity onPress={onAction} style={styles.action}>
+          <Text style={styles.actionText}>{actionLabel}</Text>
+        </TouchableOpacity>
+      )}
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 15,
+    right: 15,
+    bottom: 20,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#333',
+    borderRadius: 10,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    elevation: 6,
+  },
+  message: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 14,
+  },
+  action: {
+    marginLeft: 16,
+  },
+  actionText: {
+    color: '#ff6b6b',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+});
@@ -1,12 +1,10 @@
 import React, { createContext, useState, useContext, useEffect } from 'react';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { ENV } from '../config/env';
+import { favoritesRepository } from '../services/favoritesRepository';
+import { swipeHistoryRepository } from '../services/swipeHistoryRepository';
+import { getAuthBackend, ProfileUpdate, User } from '../services/auth';
+import { getAvatarUri, setAvatar } from '../services/avatars';
 
-interface User {
-  id: string;
-  email: string;
-  username: string;
-}
+export type { ProfileUpdate, User };
 
 interface AuthContextType {
   user: User | null;
@@ -14,12 +12,27 @@ interface AuthContextType {
   signIn: (email: string, password: string) => Promise<void>;
   signUp: (email: string, username: string, password: string) => Promise<void>;
   signOut: () => Promise<void>;
+  updateProfile: (changes: ProfileUpdate) => Promise<void>;
+  // Set the profile photo kept on this device; null goes back to initials
+  updateAvatar: (sourceUri: string | null) => Promise<void>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  requestPasswordReset: (email: string) => Promise<void>;
+  verifyResetCode: (email: string, code: string) => Promise<string>;
+  resetPassword: (resetToken: string, newPassword: string) => Promise<void>;
   isAuthenticated: boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
-const USERS_STORAGE_KEY = 'users';
+// Drop everything cached for the previous account
+const clearUserCaches = () => {
+  favoritesRepository.clearCache();
+  swipeHistoryRepository.clearCache();
+};
+
+// Avatars are device-local, so they're added to whatever user the backend returns
+const withAvatar = async (account: User | null): Promise<User | null> =>
+  account && { ...account, avatarUri: await getAvatarUri(account.id) };
 
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
@@ -29,12 +42,17 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     loadUser();
   }, []);
 
+  // A backend can end the session on its own, e.g. when a refresh token is rejected
+  useEffect(() => {
+    return getAuthBackend().onSessionExpired?.(() => {
+      clearUserCaches();
+      setUser(null);
+    });
+  }, []);
+
   const loadUser = async () => {
     try {
-      const userJson = await AsyncStorage.getItem(ENV.STORAGE_KEYS.USER);
-      if (userJson) {
-        setUser(JSON.parse(userJson));
-      }
+      setUser(await withAvatar(await getAuthBackend().restoreSession()));
     } catch (error) {
       console.error('Error loading user:', error);
     } finally {
@@ -42,33 +60,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
-  const getUsers = async () => {
-    const usersJson = await AsyncStorage.getItem(USERS_STORAGE_KEY);
-    return usersJson ? JSON.parse(usersJson) : [];
-  };
-
-  const saveUsers = async (users: any[]) => {
-    await AsyncStorage.setItem(USERS_STORAGE_KEY, JSON.stringify(users));
-  };
-
   const signIn = async (email: string, password: string) => {
     try {
       setLoading(true);
-      const users = await getUsers();
-      const user = users.find((u: any) => u.email === email && u.password === password);
-
-      if (!user) {
-        throw new Error('Invalid email or password');
-      }
-
-      const userData: User = {
-        id: user.id,
-        email: user.email,
-        username: user.username,
-      };
-
-      await AsyncStorage.setItem(ENV.STORAGE_KEYS.USER, JSON.stringify(userData));
-      setUser(userData);
+      const userData = await getAuthBackend().signIn(email, password);
+      setUser(await withAvatar(userData));
     } catch (error) {
       console.error('Sign in error:', error);
       throw error;
@@ -80,32 +76,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const signUp = async (email: string, username: string, password: string) => {
     try {
       setLoading(true);
-      const users = await getUsers();
-
-      // Check if email already exists
-      if (users.some((u: any) => u.email === email)) {
-        throw new Error('Email already registered');
-      }
-
-      // Create new user
-      const newUser = {
-        id: Date.now().toString(),
-        email,
-        username,
-        password, // In a real app, this should be hashed
-      };
-
-      // Save user to storage
-      await saveUsers([...users, newUser]);
-
-      const userData: User = {
-        id: newUser.id,
-        email: newUser.email,
-        username: newUser.username,
-      };
-
-      await AsyncStorage.setItem(ENV.STORAGE_KEYS.USER, JSON.stringify(userData));
-      setUser(userData);
+      const userData = await getAuthBackend().signUp(email, username, password);
+      setUser(await withAvatar(userData));
     } catch (error) {
       console.error('Sign up error:', error);
       throw error;
@@ -116,7 +88,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const signOut = async () => {
     try {
-      await AsyncStorage.removeItem(ENV.STORAGE_KEYS.USER);
+      await getAuthBackend().signOut();
+      clearUserCaches();
       setUser(null);
     } catch (error) {
       console.error('Sign out error:', error);
@@ -124,6 +97,66 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  const updateProfile = async (changes: ProfileUpdate) => {
+    try {
+      const userData = await getAuthBackend().updateProfile(changes);
+      setUser(await withAvatar(userData));
+    } catch (error) {
+      console.error('Update profile error:', error);
+      throw error;
+    }
+  };
+
+  const updateAvatar = async (sourceUri: string | null) => {
+    if (!user) {
+      return;
+    }
+    try {
+      const avatarUri = await setAvatar(user.id, sourceUri);
+      setUser(current => current && { ...current, avatarUri });
+    } catch (error) {
+      console.error('Update avatar error:', error);
+      throw error;
+    }
+  };
+
+  const changePassword = async (currentPassword: string, newPassword: string) => {
+    try {
+      await getAuthBackend().changePassword(currentPassword, newPassword);
+    } catch (error) {
+      console.error('Change password error:', error);
+      throw error;
+    }
+  };
+
+  // Account recovery works while signed out, so it leaves the global loading state alone
+  const requestPasswordReset = async (email: string) => {
+    try {
+      await getAuthBackend().requestPasswordReset(email);
+    } catch (error) {
+      console.error('Password reset request error:', error);
+      throw error;
+    }
+  };
+
+  const verifyResetCode = async (email: string, code: string) => {
+    try {
+      return await getAuthBackend().verifyResetCode(email, code);
+    } catch (error) {
+      console.error('Reset code verification error:', error);
+      throw error;
+    }
+  };
+
+  const resetPassword = async (resetToken: string, newPassword: string) => {
+    try {
+      await getAuthBackend().resetPassword(resetToken, newPassword);
+    } catch (error) {
+      console.error('Password reset error:', error);
+      throw error;
+    }
+  };
+
   return (
     <AuthContext.Provider
       value={{
@@ -132,6 +165,12 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         signIn,
         signUp,
         signOut,
+        updateProfile,
+        updateAvatar,
+        changePassword,
+        requestPasswordReset,
+        verifyResetCode,
+        resetPassword,
         isAuthenticated: !!user,
       }}
     >
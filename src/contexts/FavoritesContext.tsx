@@ -0,0 +1,149 @@
+import React, { createContext, useState, useContext, useEffect, useCallback } from 'react';
+import { useAuth } from './AuthContext';
+import { favoritesRepository, RemovedFavorite } from '../services/favoritesRepository';
+import { Restaurant } from '../types/restaurant';
+
+interface FavoritesContextType {
+  favorites: Restaurant[];
+  loading: boolean;
+  addFavorite: (restaurant: Restaurant) => Promise<void>;
+  removeFavorite: (restaurantId: string) => Promise<void>;
+  // Returns what was removed so it can be handed back to restoreFavorites
+  removeFavorites: (restaurantIds: string[]) => Promise<RemovedFavorite[]>;
+  restoreFavorites: (entries: RemovedFavorite[]) => Promise<void>;
+  reorderFavorites: (restaurantIds: string[]) => Promise<void>;
+  toggleFavorite: (restaurant: Restaurant) => Promise<void>;
+  isFavorite: (restaurantId: string) => boolean;
+  refreshFavorites: () => Promise<void>;
+}
+
+const FavoritesContext = createContext<FavoritesContextType | undefined>(undefined);
+
+export const FavoritesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [favorites, setFavorites] = useState<Restaurant[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Load the signed-in user's list and follow every change made to it
+  useEffect(() => {
+    setFavorites([]);
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+
+    let mounted = true;
+    setLoading(true);
+    const unsubscribe = favoritesRepository.subscribe(user.id, updated => {
+      if (mounted) {
+        setFavorites(updated);
+      }
+    });
+
+    favoritesRepository
+      .getAll(user.id)
+      .then(loaded => {
+        if (mounted) {
+          setFavorites(loaded);
+        }
+      })
+      .catch(error => console.error('Error loading favorites:', error))
+      .finally(() => {
+        if (mounted) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, [user?.id]);
+
+  const addFavorite = useCallback(async (restaurant: Restaurant) => {
+    if (!user) {
+      return;
+    }
+    await favoritesRepository.add(user.id, restaurant);
+  }, [user?.id]);
+
+  const removeFavorite = useCallback(async (restaurantId: string) => {
+    if (!user) {
+      return;
+    }
+    await favoritesRepository.remove(user.id, restaurantId);
+  }, [user?.id]);
+
+  const removeFavorites = useCallback(async (restaurantIds: string[]) => {
+    if (!user) {
+      return [];
+    }
+    const current = await favoritesRepository.getAll(user.id);
+    const removed = current
+      .map((restaurant, index) => ({ restaurant, index }))
+      .filter(entry => restaurantIds.includes(entry.restaurant.id));
+    await favoritesRepository.removeMany(user.id, restaurantIds);
+    return removed;
+  }, [user?.id]);
+
+  const restoreFavorites = useCallback(async (entries: RemovedFavorite[]) => {
+    if (!user) {
+      return;
+    }
+    await favoritesRepository.restore(user.id, entries);
+  }, [user?.id]);
+
+  const reorderFavorites = useCallback(async (restaurantIds: string[]) => {
+    if (!user) {
+      return;
+    }
+    await favoritesRepository.reorder(user.id, restaurantIds);
+  }, [user?.id]);
+
+  const isFavorite = useCallback(
+    (restaurantId: string) => favorites.some(fav => fav.id === restaurantId),
+    [favorites]
+  );
+
+  const toggleFavorite = useCallback(async (restaurant: Restaurant) => {
+    if (isFavorite(restaurant.id)) {
+      await removeFavorite(restaurant.id);
+    } else {
+      await addFavorite(restaurant);
+    }
+  }, [isFavorite, addFavorite, removeFavorite]);
+
+  const refreshFavorites = useCallback(async () => {
+    if (!user) {
+      return;
+    }
+    await favoritesRepository.reload(user.id);
+  }, [user?.id]);
+
+  return (
+    <FavoritesContext.Provider
+      value={{
+        favorites,
+        loading,
+        addFavorite,
+        removeFavorite,
+        removeFavorites,
+        restoreFavorites,
+        reorderFavorites,
+        toggleFavorite,
+        isFavorite,
+        refreshFavorites,
+      }}
+    >
+      {children}
+    </FavoritesContext.Provider>
+  );
+};
+
+export const useFavorites = () => {
+  const context = useContext(FavoritesContext);
+  if (context === undefined) {
+    throw new Error('useFavorites must be used within a FavoritesProvider');
+  }
+  return context;
+};
@@ -0,0 +1,70 @@
+import React, { createContext, useState, useContext, useEffect } from 'react';
+import { useAuth } from './AuthContext';
+import {
+  DEFAULT_PREFERENCES,
+  loadPreferences,
+  savePreferences,
+  UserPreferences,
+} from '../services/preferences';
+
+interface PreferencesContextType {
+  preferences: UserPreferences;
+  loading: boolean;
+  updatePreferences: (updates: Partial<UserPreferences>) => Promise<void>;
+}
+
+const PreferencesContext = createContext<PreferencesContextType | undefined>(undefined);
+
+export const PreferencesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const [preferences, setPreferences] = useState<UserPreferences>(DEFAULT_PREFERENCES);
+  const [loading, setLoading] = useState(true);
+
+  // Each account has its own preferences; signed out, the defaults apply
+  useEffect(() => {
+    setPreferences(DEFAULT_PREFERENCES);
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+
+    let mounted = true;
+    setLoading(true);
+    loadPreferences(user.id).then(loaded => {
+      if (mounted) {
+        setPreferences(loaded);
+        setLoading(false);
+      }
+    });
+    return () => {
+      mounted = false;
+    };
+  }, [user?.id]);
+
+  const updatePreferences = async (updates: Partial<UserPreferences>) => {
+    setPreferences(prev => ({ ...prev, ...updates }));
+    if (user) {
+      await savePreferences(user.id, updates);
+    }
+  };
+
+  return (
+    <PreferencesContext.Provider
+      value={{
+        preferences,
+        loading,
+        updatePreferences,
+      }}
+    >
+      {children}
+    </PreferencesContext.Provider>
+  );
+};
+
+export const usePreferences = () => {
+  const context = useContext(PreferencesContext);
+  if (context === undefined) {
+    throw new Error('usePreferences must be used within a PreferencesProvider');
+  }
+  return context;
+};
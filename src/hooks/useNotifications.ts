@@ -0,0 +1,84 @@
+import { useEffect, useRef } from 'react';
+import * as Notifications from 'expo-notifications';
+import { useAuth } from '../contexts/AuthContext';
+import { useFavorites } from '../contexts/FavoritesContext';
+import { usePreferences } from '../contexts/PreferencesContext';
+import { navigationRef } from '../navigation/navigationRef';
+import {
+  cancelReminders,
+  configureNotifications,
+  getNotificationPermission,
+  ReminderData,
+  scheduleReminders,
+} from '../services/notifications';
+
+// Keep scheduled reminders in line with the signed-in user's settings and favorites
+export const useReminderScheduling = () => {
+  const { user } = useAuth();
+  const { favorites } = useFavorites();
+  const { preferences, loading } = usePreferences();
+  const settings = preferences.notifications;
+  // Reordering favorites doesn't change any reminder
+  const favoriteIds = favorites.map(favorite => favorite.id).sort().join(',');
+  const favoritesRef = useRef(favorites);
+  favoritesRef.current = favorites;
+
+  useEffect(() => {
+    configureNotifications().catch(error =>
+      console.error('Error configuring notifications:', error)
+    );
+  }, []);
+
+  useEffect(() => {
+    if (loading) {
+      return;
+    }
+
+    let cancelled = false;
+    const sync = async () => {
+      try {
+        const allowed = !!user && settings.enabled && (await getNotificationPermission()) === 'granted';
+        // Superseded while checking permission; the newer sync takes over
+        if (cancelled) {
+          return;
+        }
+        if (allowed) {
+          await scheduleReminders(settings, favoritesRef.current);
+        } else {
+          await cancelReminders();
+        }
+      } catch (error) {
+        console.error('Error syncing reminders:', error);
+      }
+    };
+
+    sync();
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id, settings, favoriteIds, loading]);
+};
+
+// Open the restaurant a tapped reminder is about, including the one that launched the app.
+// navigationReady comes from NavigationContainer's onReady.
+export const useNotificationNavigation = (navigationReady: boolean) => {
+  const { isAuthenticated } = useAuth();
+  const response = Notifications.useLastNotificationResponse();
+  const handledRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!response || !isAuthenticated || !navigationReady) {
+      return;
+    }
+    const id = response.notification.request.identifier;
+    if (handledRef.current === id) {
+      return;
+    }
+    handledRef.current = id;
+
+    const data = response.notification.request.content.data as ReminderData | undefined;
+    if (data?.type === 'favorite_reopened') {
+      navigationRef.navigate('RestaurantDetail', { id: data.restaurantId });
+    }
+  }, [response, isAuthenticated, navigationReady]);
+};
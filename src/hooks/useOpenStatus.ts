@@ -0,0 +1,54 @@
+import { useEffect, useState } from 'react';
+import { DetailedRestaurant } from '../types/restaurant';
+import { getRestaurantSchedule, loadOpeningSchedule } from '../services/openingHours';
+import { getOpenStatus, OpeningSchedule, OpenStatus } from '../utils/openingHours';
+
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+interface UseOpenStatusOptions {
+  // Fetch hours for restaurants that don't carry them, e.g. saved favorites
+  load?: boolean;
+}
+
+// Open / closes-soon / closed for a restaurant, worked out from its hours and kept
+// current while mounted. Falls back to the snapshot from search when there are no hours.
+export const useOpenStatus = (
+  restaurant: DetailedRestaurant,
+  { load = false }: UseOpenStatusOptions = {}
+): OpenStatus | null => {
+  const [schedule, setSchedule] = useState<OpeningSchedule | null>(() => getRestaurantSchedule(restaurant));
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const own = getRestaurantSchedule(restaurant);
+    setSchedule(own);
+    if (own || !load) {
+      return;
+    }
+
+    let mounted = true;
+    loadOpeningSchedule(restaurant.id)
+      .then(loaded => {
+        if (mounted) {
+          setSchedule(loaded);
+        }
+      })
+      .catch(error => console.error('Error loading opening hours:', { id: restaurant.id, error }));
+    return () => {
+      mounted = false;
+    };
+  }, [restaurant.id, restaurant.opening_hours, restaurant.utc_offset_minutes, load]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  if (schedule) {
+    return getOpenStatus(schedule, now);
+  }
+  if (restaurant.is_open_now !== undefined) {
+    return { state: restaurant.is_open_now ? 'open' : 'closed' };
+  }
+  return null;
+};
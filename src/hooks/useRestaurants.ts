@@ -1,66 +1,101 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import * as Location from 'expo-location';
-import { searchRestaurants } from '../services/api';
+import { refreshSearchRestaurants, searchRestaurants, searchRestaurantsCached } from '../services/api';
+import { createPageTokenManager } from '../services/pagination';
+import { CachedResult } from '../services/cache';
+import {
+  ApiError,
+  LocationPermissionError,
+  LocationUnavailableError,
+  toApiError,
+} from '../services/apiErrors';
+import { SearchRestaurantsResult } from '../services/providers';
 import { ENV } from '../config/env';
+import { Restaurant, RestaurantFilters } from '../types/restaurant';
+import { hasExcludedCuisine } from '../utils/cuisines';
+import { buildSearchKeyword } from '../utils/dietary';
+import { isPassHidden, SwipeRecord } from '../services/swipeHistoryRepository';
+import { DiningProfile } from '../services/preferences';
+
+export type { Restaurant };
+
+export interface SwipeAction {
+  direction: 'left' | 'right';
+  // Whether the swipe created a favorite that undoing should remove again
+  addedFavorite?: boolean;
+}
 
-// Helper function to calculate distance between two points using Haversine formula
-const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-  const R = 6371; // Radius of the earth in km
-  const dLat = deg2rad(lat2 - lat1);
-  const dLon = deg2rad(lon2 - lon1);
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(deg2rad(lat1)) * Math.cos(deg2rad(lat2)) *
-    Math.sin(dLon / 2) * Math.sin(dLon / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  const d = R * c; // Distance in km
-  return d;
-};
-
-const deg2rad = (deg: number): number => {
-  return deg * (Math.PI / 180);
-};
-
-export interface Restaurant {
-  id: string;
-  name: string;
-  image_url: string;
-  rating: number;
-  price?: string;
-  categories: Array<{ alias: string; title: string }>;
-  location: {
-    address1: string;
-    city: string;
-    state: string;
-    zip_code: string;
-  };
-  coordinates: {
-    latitude: number;
-    longitude: number;
-  };
-  phone: string;
-  distance: number;
-  is_open_now?: boolean;
-  website?: string;
+export interface SwipeUndoEntry extends SwipeAction {
+  restaurant: Restaurant;
+  index: number;
 }
 
-interface UseRestaurantsParams {
-  radius?: number;
-  rating?: number;
-  price?: string[];
+// How many swipes can be rewound
+const MAX_UNDO_STEPS = 10;
+
+// Start loading the next page with this many cards left
+const PREFETCH_THRESHOLD = 3;
+
+interface UseRestaurantsOptions {
+  // Hold off the initial fetch, e.g. until saved filters are loaded
+  enabled?: boolean;
+  // Passes younger than hidePassedDays are never shown again
+  swipeHistory?: SwipeRecord[];
+  hidePassedDays?: number;
+  // Dietary needs and disliked cuisines, applied on top of the filters
+  profile?: DiningProfile;
 }
 
-export const useRestaurants = (params?: UseRestaurantsParams) => {
+export const useRestaurants = (params?: RestaurantFilters, options?: UseRestaurantsOptions) => {
+  const enabled = options?.enabled ?? true;
+  const profile = options?.profile;
   const [restaurants, setRestaurants] = useState<Restaurant[]>([]);
   const restaurantsRef = useRef<Restaurant[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
+  const currentIndexRef = useRef(0);
+  currentIndexRef.current = currentIndex;
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  // Typed so the screen can offer the right way out, e.g. a retry or a settings link
+  const [error, setError] = useState<ApiError | null>(null);
   const [location, setLocation] = useState<Location.LocationObject | null>(null);
-  const [nextPageToken, setNextPageToken] = useState<string | undefined>();
-  const [isFetchingMore, setIsFetchingMore] = useState(false);
+  const [locationAttempt, setLocationAttempt] = useState(0);
+  const pagerRef = useRef(createPageTokenManager());
+  // Shared by the prefetch and a swipe off the last card
+  const nextPageRef = useRef<Promise<number | null> | null>(null);
+  // Set while the deck has run out and waits on the next page; there's no card to swipe
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Set while the deck is a cached first page with no refresh on the way. Such a
+  // page has no token, so it's fetched again from the network when more are needed.
+  const needsPageTokenRef = useRef(false);
+  const hasMorePages = () => pagerRef.current.hasNextPage() || needsPageTokenRef.current;
   const [seenRestaurants] = useState(new Set<string>());
   const [isInitialFetch, setIsInitialFetch] = useState(true);
+  const [refreshCount, setRefreshCount] = useState(0);
+  const undoStackRef = useRef<SwipeUndoEntry[]>([]);
+  const [canUndo, setCanUndo] = useState(false);
+  // Set while the deck is cached results we couldn't refresh
+  const [offline, setOffline] = useState(false);
+  const [cachedAt, setCachedAt] = useState<number | undefined>();
+  // Bumped for every first page, so a late refresh can tell its deck was replaced
+  const deckIdRef = useRef(0);
+
+  // Kept in a ref so recording a swipe doesn't recreate fetchRestaurants
+  const hiddenIds = useMemo(() => new Set(
+    (options?.swipeHistory ?? [])
+      .filter(record => isPassHidden(record, options?.hidePassedDays ?? 0))
+      .map(record => record.restaurant.id)
+  ), [options?.swipeHistory, options?.hidePassedDays]);
+  const hiddenIdsRef = useRef(hiddenIds);
+  hiddenIdsRef.current = hiddenIds;
+
+  // Disliked cuisines are excluded whatever the filters say
+  const filters = useMemo<RestaurantFilters>(() => ({
+    ...params,
+    excludeCuisines: Array.from(new Set([
+      ...(params?.excludeCuisines ?? []),
+      ...(profile?.dislikedCuisines ?? []),
+    ])),
+  }), [params, profile?.dislikedCuisines]);
 
   // Filter out duplicates and already seen restaurants
   const filterNewRestaurants = useCallback((newRestaurants: Restaurant[]) => {
@@ -70,27 +105,39 @@ export const useRestaurants = (params?: UseRestaurantsParams) => {
         return false;
       }
 
+      // Skip if recently passed
+      if (hiddenIdsRef.current.has(restaurant.id)) {
+        return false;
+      }
+
       // Apply rating filter
-      if (params?.rating && restaurant.rating < params.rating) {
+      if (filters.rating && restaurant.rating < filters.rating) {
         return false;
       }
 
       // Apply price filter
-      if (params?.price && params.price.length > 0) {
-        if (!restaurant.price || !params.price.includes(restaurant.price)) {
+      if (filters.price && filters.price.length > 0) {
+        if (!restaurant.price || !filters.price.includes(restaurant.price)) {
           return false;
         }
       }
 
+      // Included cuisines are matched server-side by the search keyword,
+      // excluded ones can only be dropped here
+      if (hasExcludedCuisine(restaurant.categories, filters.excludeCuisines)) {
+        return false;
+      }
+
       return true;
     });
-  }, [seenRestaurants, params?.rating, params?.price]);
+  }, [seenRestaurants, filters.rating, filters.price, filters.excludeCuisines]);
 
-  const fetchRestaurants = useCallback(async (isFirstPage: boolean = true) => {
+  // Resolves with how many cards were added to the deck, or null if the fetch failed
+  const fetchRestaurants = useCallback(async (isFirstPage: boolean = true): Promise<number | null> => {
     try {
       if (!location) {
         console.log('No user location available');
-        return;
+        return 0;
       }
 
       setLoading(true);
@@ -98,67 +145,95 @@ export const useRestaurants = (params?: UseRestaurantsParams) => {
 
       console.log('Fetching restaurants:', {
         currentCount: restaurantsRef.current.length,
-        filters: params,
+        filters,
         isFirstPage,
         isInitialFetch,
-        pageToken: isFirstPage ? undefined : nextPageToken,
+        hasNextPage: pagerRef.current.hasNextPage(),
       });
 
-      const { results, nextPageToken: newPageToken } = await searchRestaurants({
+      const deckId = isFirstPage ? ++deckIdRef.current : deckIdRef.current;
+
+      // A cached first page shows straight away; when its refresh lands, the cards
+      // still ahead are swapped for the fresh results
+      const handleRefreshed = (update: CachedResult<SearchRestaurantsResult>) => {
+        if (deckIdRef.current !== deckId) {
+          return;
+        }
+        setOffline(update.offline);
+        setCachedAt(update.storedAt);
+        if (update.offline) {
+          return;
+        }
+        needsPageTokenRef.current = false;
+
+        const shown = restaurantsRef.current.slice(0, currentIndexRef.current + 1);
+        restaurantsRef.current
+          .slice(currentIndexRef.current + 1)
+          .forEach(r => seenRestaurants.delete(r.id));
+        const fresh = filterNewRestaurants(update.data.results);
+        fresh.forEach(r => seenRestaurants.add(r.id));
+
+        const updated = [...shown, ...fresh];
+        restaurantsRef.current = updated;
+        setRestaurants(updated);
+        pagerRef.current.setToken(update.data.nextPageToken);
+        if (updated.length > 0) {
+          setError(null);
+        }
+      };
+
+      const searchParams = {
         latitude: location.coords.latitude,
         longitude: location.coords.longitude,
-        radius: params?.radius || ENV.DEFAULTS.SEARCH_RADIUS,
+        radius: filters.radius || ENV.DEFAULTS.SEARCH_RADIUS,
         pageSize: ENV.DEFAULTS.RESULTS_LIMIT,
-        pageToken: isFirstPage ? undefined : nextPageToken,
-      });
-
-      console.log('Search results:', {
-        count: results.length,
-        hasNextPage: !!newPageToken,
-      });
-
-      if (!results || results.length === 0) {
-        setError('No restaurants found in your area. Try adjusting your filters.');
-        setLoading(false);
-        return;
+        keyword: buildSearchKeyword(filters.includeCuisines, profile?.dietary),
+      };
+
+      // Waits out the token's validity delay if the page is wanted sooner
+      const fetchNextPage = () =>
+        pagerRef.current.fetchNext(pageToken => searchRestaurants({ ...searchParams, pageToken }));
+
+      let page: SearchRestaurantsResult | null;
+      if (isFirstPage) {
+        pagerRef.current.reset();
+        const { data, stale, storedAt } = await searchRestaurantsCached(searchParams, handleRefreshed);
+        page = data;
+        needsPageTokenRef.current = storedAt !== undefined && !stale;
+        setOffline(false);
+        setCachedAt(storedAt);
+      } else if (needsPageTokenRef.current) {
+        // Cards already in the deck are filtered out as seen
+        needsPageTokenRef.current = false;
+        page = await refreshSearchRestaurants(searchParams);
+      } else {
+        page = await fetchNextPage();
       }
 
-      // Transform the results into our restaurant format
-      const newRestaurants = results.map((place: any) => ({
-        id: place.place_id,
-        name: place.name,
-        image_url: place.photos?.[0]
-          ? `${ENV.API.BASE_URL}/photo?maxwidth=400&photoreference=${place.photos[0].photo_reference}&key=${ENV.API.KEY}`
-          : 'https://via.placeholder.com/400x300?text=No+Image',
-        rating: place.rating || 0,
-        price: place.price_level ? '$'.repeat(place.price_level) : undefined,
-        location: {
-          address1: place.vicinity,
-          city: '',
-          state: '',
-          zip_code: '',
-        },
-        coordinates: {
-          latitude: place.geometry.location.lat,
-          longitude: place.geometry.location.lng,
-        },
-        distance: calculateDistance(
-          location.coords.latitude,
-          location.coords.longitude,
-          place.geometry.location.lat,
-          place.geometry.location.lng
-        ),
-      }));
-
-      // Filter out duplicates and apply filters
-      const filteredNewRestaurants = filterNewRestaurants(newRestaurants);
-
-      if (filteredNewRestaurants.length === 0) {
-        if (!isInitialFetch) {
-          setError('No restaurants found in your area. Try adjusting your filters.');
+      let filteredNewRestaurants: Restaurant[] = [];
+      // A page can filter down to nothing; keep going while there are more
+      while (page && deckIdRef.current === deckId) {
+        const { results, nextPageToken: newPageToken } = page;
+        // Set before anything below bails out, so an all-filtered page doesn't get fetched again
+        pagerRef.current.setToken(newPageToken);
+
+        console.log('Search results:', {
+          count: results.length,
+          hasNextPage: !!newPageToken,
+        });
+
+        // Filter out duplicates and apply filters
+        filteredNewRestaurants = filterNewRestaurants(results ?? []);
+        if (filteredNewRestaurants.length > 0 || !newPageToken) {
+          break;
         }
+        page = await fetchNextPage();
+      }
+
+      // An empty deck without an error is the "nothing found" state
+      if (filteredNewRestaurants.length === 0 || deckIdRef.current !== deckId) {
         setLoading(false);
-        return;
+        return 0;
       }
 
       // Add new restaurants to seen set
@@ -175,49 +250,129 @@ export const useRestaurants = (params?: UseRestaurantsParams) => {
         allRestaurants: updated,
       });
 
-      setNextPageToken(newPageToken);
       setIsInitialFetch(false);
       setLoading(false);
+      return filteredNewRestaurants.length;
     } catch (error) {
       console.error('Error fetching restaurants:', error);
-      setError(error instanceof Error ? error.message : 'Failed to fetch restaurants');
+      setError(toApiError(error));
       setLoading(false);
+      return null;
+    }
+  }, [location, filters, profile?.dietary, currentIndex, isInitialFetch, filterNewRestaurants]);
+
+  const loadNextPage = useCallback(() => {
+    if (!nextPageRef.current) {
+      nextPageRef.current = fetchRestaurants(false).finally(() => {
+        nextPageRef.current = null;
+      });
+    }
+    return nextPageRef.current;
+  }, [fetchRestaurants]);
+
+  // Start over from the first page. The fetch itself runs from the effect below,
+  // so it picks up filters that were changed in the same render.
+  const refreshRestaurants = useCallback(() => {
+    // Pages still loading for the old deck are dropped
+    deckIdRef.current += 1;
+    seenRestaurants.clear();
+    restaurantsRef.current = [];
+    setRestaurants([]);
+    setCurrentIndex(0);
+    pagerRef.current.reset();
+    needsPageTokenRef.current = false;
+    setIsInitialFetch(true);
+    setRefreshCount(count => count + 1);
+  }, [seenRestaurants]);
+
+  const nextRestaurant = useCallback((swipe?: SwipeAction) => {
+    const swiped = restaurantsRef.current[currentIndex];
+    if (swipe && swiped) {
+      undoStackRef.current = [
+        ...undoStackRef.current,
+        { ...swipe, restaurant: swiped, index: currentIndex },
+      ].slice(-MAX_UNDO_STEPS);
+      setCanUndo(true);
     }
-  }, [location, params, currentIndex, isInitialFetch, nextPageToken, filterNewRestaurants]);
 
-  const nextRestaurant = useCallback(() => {
     console.log('Next restaurant requested:', {
       currentIndex,
       totalRestaurants: restaurantsRef.current.length,
-      hasNextPage: !!nextPageToken,
-      isFetchingMore,
+      hasNextPage: hasMorePages(),
+      isFetchingMore: !!nextPageRef.current,
       currentRestaurant: restaurantsRef.current[currentIndex],
       allRestaurants: restaurantsRef.current,
     });
 
     if (currentIndex < restaurantsRef.current.length - 1) {
       setCurrentIndex(prev => prev + 1);
-    } else if (nextPageToken && !isFetchingMore) {
-      setIsFetchingMore(true);
-      fetchRestaurants(false).finally(() => {
-        setIsFetchingMore(false);
+    } else if (hasMorePages()) {
+      // Usually prefetched already. Otherwise step past the swiped card so it can't be
+      // swiped again; the new page is appended right there.
+      const deckId = deckIdRef.current;
+      setCurrentIndex(restaurantsRef.current.length);
+      setLoadingMore(true);
+      loadNextPage().then(added => {
+        setLoadingMore(false);
+        // null leaves the deck empty so the error state shows; nothing added means
+        // every remaining page was filtered out, so start over
+        if (added === 0 && deckIdRef.current === deckId) {
+          refreshRestaurants();
+        }
       });
-    } else if (!nextPageToken && restaurantsRef.current.length > 0) {
-      // If we've gone through all restaurants, fetch a new batch
-      seenRestaurants.clear();
-      setCurrentIndex(0);
-      fetchRestaurants(true);
+    } else if (restaurantsRef.current.length > 0) {
+      // If we've gone through all restaurants, start a new deck. It's emptied first
+      // so swiped cards don't show again while it loads.
+      refreshRestaurants();
+    }
+  }, [currentIndex, loadNextPage, refreshRestaurants]);
+
+  // Fetch the next page a few cards early, so its token has had time to become
+  // valid and the cards are ready by the time the deck runs out
+  useEffect(() => {
+    const remaining = restaurants.length - 1 - currentIndex;
+    if (restaurants.length > 0 && remaining <= PREFETCH_THRESHOLD && hasMorePages()) {
+      loadNextPage();
     }
-  }, [currentIndex, nextPageToken, isFetchingMore, fetchRestaurants]);
+  }, [restaurants, currentIndex, loadNextPage]);
+
+  // Bring back the last swiped card. If the deck was reloaded since, the
+  // restaurant is put back in front of the current card instead.
+  const undoSwipe = useCallback((): SwipeUndoEntry | undefined => {
+    const entry = undoStackRef.current[undoStackRef.current.length - 1];
+    if (!entry) {
+      return undefined;
+    }
+    undoStackRef.current = undoStackRef.current.slice(0, -1);
+    setCanUndo(undoStackRef.current.length > 0);
+
+    if (restaurantsRef.current[entry.index]?.id === entry.restaurant.id) {
+      setCurrentIndex(entry.index);
+    } else {
+      const updated = restaurantsRef.current.filter(r => r.id !== entry.restaurant.id);
+      const insertAt = Math.min(currentIndex, updated.length);
+      updated.splice(insertAt, 0, entry.restaurant);
+      restaurantsRef.current = updated;
+      setRestaurants(updated);
+      setCurrentIndex(insertAt);
+    }
+    seenRestaurants.add(entry.restaurant.id);
+    return entry;
+  }, [currentIndex, seenRestaurants]);
 
   // Initialize location and restaurants
   useEffect(() => {
     let mounted = true;
     const initLocation = async () => {
       try {
+        setError(null);
+        setLoading(true);
         const { status } = await Location.requestForegroundPermissionsAsync();
         if (status !== 'granted') {
-          setError('Permission to access location was denied');
+          if (mounted) {
+            setError(new LocationPermissionError());
+            setLoading(false);
+          }
           return;
         }
 
@@ -231,7 +386,8 @@ export const useRestaurants = (params?: UseRestaurantsParams) => {
         }
       } catch (err) {
         if (mounted) {
-          setError('Error getting location. Please make sure location services are enabled.');
+          setError(new LocationUnavailableError(err));
+          setLoading(false);
           console.error('Error getting location:', err);
         }
       }
@@ -241,12 +397,12 @@ export const useRestaurants = (params?: UseRestaurantsParams) => {
     return () => {
       mounted = false;
     };
-  }, []);
+  }, [locationAttempt]);
 
   // Fetch restaurants when location is available
   useEffect(() => {
     let mounted = true;
-    if (location && isInitialFetch) {
+    if (location && isInitialFetch && enabled) {
       console.log('Location available, fetching initial restaurants');
       fetchRestaurants(true).then(() => {
         if (mounted) {
@@ -257,7 +413,7 @@ export const useRestaurants = (params?: UseRestaurantsParams) => {
     return () => {
       mounted = false;
     };
-  }, [location, isInitialFetch, fetchRestaurants]);
+  }, [location, isInitialFetch, enabled, refreshCount, fetchRestaurants]);
 
   // Debug effect to log state changes
   useEffect(() => {
@@ -270,12 +426,24 @@ export const useRestaurants = (params?: UseRestaurantsParams) => {
     });
   }, [restaurants, currentIndex]);
 
-  const refreshRestaurants = useCallback(() => {
-    seenRestaurants.clear();
-    setCurrentIndex(0);
-    setIsInitialFetch(true);
-    fetchRestaurants(true);
-  }, [fetchRestaurants]);
+  // Try again after an error: ask for the location again if that's what failed,
+  // otherwise reload the deck
+  const retry = useCallback(() => {
+    if (!location) {
+      setLocationAttempt(count => count + 1);
+    } else {
+      refreshRestaurants();
+    }
+  }, [location, refreshRestaurants]);
+
+  // A changed dining profile starts the deck over
+  const profileRef = useRef(profile);
+  useEffect(() => {
+    if (profileRef.current !== profile) {
+      profileRef.current = profile;
+      refreshRestaurants();
+    }
+  }, [profile, refreshRestaurants]);
 
   const currentRestaurant = restaurantsRef.current[currentIndex];
   if (!currentRestaurant) {
@@ -291,5 +459,11 @@ export const useRestaurants = (params?: UseRestaurantsParams) => {
     error,
     nextRestaurant,
     refreshRestaurants,
+    retry,
+    undoSwipe,
+    canUndo,
+    loadingMore,
+    offline,
+    cachedAt,
   };
 }; 
\ No newline at end of file
@@ -0,0 +1,32 @@
+import { useEffect, useRef } from 'react';
+import { Accelerometer } from 'expo-sensors';
+
+// Acceleration (in g) that counts as a shake, and the minimum gap between shakes
+const SHAKE_THRESHOLD = 1.8;
+const SHAKE_COOLDOWN_MS = 1000;
+
+export const useShake = (onShake: () => void, enabled: boolean = true) => {
+  const onShakeRef = useRef(onShake);
+  onShakeRef.current = onShake;
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    let lastShake = 0;
+    Accelerometer.setUpdateInterval(100);
+    const subscription = Accelerometer.addListener(({ x, y, z }) => {
+      const magnitude = Math.sqrt(x * x + y * y + z * z);
+      const now = Date.now();
+      if (magnitude > SHAKE_THRESHOLD && now - lastShake > SHAKE_COOLDOWN_MS) {
+        lastShake = now;
+        onShakeRef.current();
+      }
+    });
+
+    return () => {
+      subscription.remove();
+    };
+  }, [enabled]);
+};
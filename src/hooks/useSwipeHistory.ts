@@ -0,0 +1,67 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { SwipeDecision, SwipeRecord, swipeHistoryRepository } from '../services/swipeHistoryRepository';
+import { Restaurant } from '../types/restaurant';
+
+// The signed-in user's swipe decisions, kept in sync across screens
+export const useSwipeHistory = () => {
+  const { user } = useAuth();
+  const [history, setHistory] = useState<SwipeRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    setHistory([]);
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+
+    let mounted = true;
+    setLoading(true);
+    const unsubscribe = swipeHistoryRepository.subscribe(user.id, updated => {
+      if (mounted) {
+        setHistory(updated);
+      }
+    });
+
+    swipeHistoryRepository
+      .getAll(user.id)
+      .then(loaded => {
+        if (mounted) {
+          setHistory(loaded);
+        }
+      })
+      .catch(error => console.error('Error loading swipe history:', error))
+      .finally(() => {
+        if (mounted) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      mounted = false;
+      unsubscribe();
+    };
+  }, [user?.id]);
+
+  const recordSwipe = useCallback(async (restaurant: Restaurant, decision: SwipeDecision) => {
+    if (!user) {
+      return;
+    }
+    await swipeHistoryRepository.record(user.id, restaurant, decision);
+  }, [user?.id]);
+
+  const removeSwipe = useCallback(async (restaurantId: string) => {
+    if (!user) {
+      return;
+    }
+    await swipeHistoryRepository.remove(user.id, restaurantId);
+  }, [user?.id]);
+
+  return {
+    history,
+    loading,
+    recordSwipe,
+    removeSwipe,
+  };
+};
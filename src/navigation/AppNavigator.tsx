@@ -1,22 +1,43 @@
-import React from 'react';
-import { NavigationContainer } from '@react-navigation/native';
+import React, { useState } from 'react';
+import { NavigationContainer, NavigatorScreenParams } from '@react-navigation/native';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { useAuth } from '../contexts/AuthContext';
+import { useNotificationNavigation, useReminderScheduling } from '../hooks/useNotifications';
+import { navigationRef } from './navigationRef';
+import { useAuthAwareLinking } from './linking';
 import { HomeScreen } from '../screens/HomeScreen';
 import LoginScreen from '../screens/LoginScreen';
+import RegisterScreen from '../screens/RegisterScreen';
+import ForgotPasswordScreen from '../screens/ForgotPasswordScreen';
 import { RestaurantDetailScreen } from '../screens/RestaurantDetailScreen';
 import FavoritesScreen from '../screens/FavoritesScreen';
 import ProfileScreen from '../screens/ProfileScreen';
+import SwipeHistoryScreen from '../screens/SwipeHistoryScreen';
+import EditProfileScreen from '../screens/EditProfileScreen';
+import PreferencesScreen from '../screens/PreferencesScreen';
+import NotificationSettingsScreen from '../screens/NotificationSettingsScreen';
 import { Ionicons } from '@expo/vector-icons';
+import { Restaurant } from '../types/restaurant';
 
 // Define the types for our navigation
 export type RootStackParamList = {
-  Login: undefined;
-  MainApp: undefined;
-  RestaurantDetail: { id: string };
+  Auth: undefined;
+  MainApp: NavigatorScreenParams<TabParamList> | undefined;
+  // Pass the restaurant when it's at hand so the screen can render before details load
+  RestaurantDetail: { id: string; restaurant?: Restaurant };
   Favorites: undefined;
   Profile: undefined;
+  SwipeHistory: undefined;
+  EditProfile: undefined;
+  Preferences: undefined;
+  NotificationSettings: undefined;
+};
+
+export type AuthStackParamList = {
+  Login: undefined;
+  Register: undefined;
+  ForgotPassword: { email?: string } | undefined;
 };
 
 export type TabParamList = {
@@ -26,11 +47,27 @@ export type TabParamList = {
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
+const AuthStack = createNativeStackNavigator<AuthStackParamList>();
 const Tab = createBottomTabNavigator<TabParamList>();
 
+const AuthFlow = () => {
+  return (
+    <AuthStack.Navigator id={undefined} screenOptions={{ headerShown: false }}>
+      <AuthStack.Screen name="Login" component={LoginScreen} />
+      <AuthStack.Screen name="Register" component={RegisterScreen} />
+      <AuthStack.Screen
+        name="ForgotPassword"
+        component={ForgotPasswordScreen}
+        options={{ headerShown: true, title: 'Reset Password' }}
+      />
+    </AuthStack.Navigator>
+  );
+};
+
 const MainTabs = () => {
   return (
     <Tab.Navigator
+      id={undefined}
       screenOptions={({ route }) => ({
         tabBarIcon: ({ focused, color, size }) => {
           let iconName: keyof typeof Ionicons.glyphMap;
@@ -70,12 +107,20 @@ const MainTabs = () => {
 
 export const AppNavigator = () => {
   const { isAuthenticated } = useAuth();
+  const [navigationReady, setNavigationReady] = useState(false);
+  const linking = useAuthAwareLinking(isAuthenticated);
+  useReminderScheduling();
+  useNotificationNavigation(navigationReady);
 
   return (
-    <NavigationContainer>
-      <Stack.Navigator screenOptions={{ headerShown: false }}>
+    <NavigationContainer
+      ref={navigationRef}
+      linking={linking}
+      onReady={() => setNavigationReady(true)}
+    >
+      <Stack.Navigator id={undefined} screenOptions={{ headerShown: false }}>
         {!isAuthenticated ? (
-          <Stack.Screen name="Login" component={LoginScreen} />
+          <Stack.Screen name="Auth" component={AuthFlow} />
         ) : (
           <>
             <Stack.Screen name="MainApp" component={MainTabs} />
@@ -84,6 +129,26 @@ export const AppNavigator = () => {
               component={RestaurantDetailScreen}
               options={{ headerShown: true }}
             />
+            <Stack.Screen
+              name="SwipeHistory"
+              component={SwipeHistoryScreen}
+              options={{ headerShown: true, title: 'Passed Restaurants' }}
+            />
+            <Stack.Screen
+              name="EditProfile"
+              component={EditProfileScreen}
+              options={{ headerShown: true, title: 'Edit Profile' }}
+            />
+            <Stack.Screen
+              name="Preferences"
+              component={PreferencesScreen}
+              options={{ headerShown: true }}
+            />
+            <Stack.Screen
+              name="NotificationSettings"
+              component={NotificationSettingsScreen}
+              options={{ headerShown: true, title: 'Notifications' }}
+            />
           </>
         )}
       </Stack.Navigator>
@@ -0,0 +1,72 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { LinkingOptions } from '@react-navigation/native';
+import * as Linking from 'expo-linking';
+import { ENV } from '../config/env';
+import type { RootStackParamList } from './AppNavigator';
+
+// flavorfinder://restaurant/:id and https://<web host>/restaurant/:id open the same screens.
+// createURL covers the exp:// prefix used in development builds and Expo Go.
+const PREFIXES = [Linking.createURL('/'), `${ENV.LINKS.SCHEME}://`, ENV.LINKS.WEB_URL];
+
+const config: LinkingOptions<RootStackParamList>['config'] = {
+  screens: {
+    MainApp: {
+      screens: {
+        Home: '',
+        Favorites: 'favorites',
+      },
+    },
+    RestaurantDetail: 'restaurant/:id',
+  },
+};
+
+// Shareable link to a restaurant. The web URL opens the app when it's installed.
+export const createRestaurantLink = (restaurantId: string) =>
+  `${ENV.LINKS.WEB_URL}/restaurant/${encodeURIComponent(restaurantId)}`;
+
+// Linking config for the root navigator. Links that arrive while signed out,
+// including the one that launched the app, are parked and opened after sign in.
+export const useAuthAwareLinking = (isAuthenticated: boolean) => {
+  const authenticatedRef = useRef(isAuthenticated);
+  authenticatedRef.current = isAuthenticated;
+  const pendingUrlRef = useRef<string | null>(null);
+  const deliverRef = useRef<((url: string) => void) | null>(null);
+
+  const linking = useMemo<LinkingOptions<RootStackParamList>>(() => ({
+    prefixes: PREFIXES,
+    config,
+    getInitialURL: async () => {
+      const url = await Linking.getInitialURL();
+      if (url && !authenticatedRef.current) {
+        pendingUrlRef.current = url;
+        return null;
+      }
+      return url;
+    },
+    subscribe: (listener) => {
+      deliverRef.current = listener;
+      const subscription = Linking.addEventListener('url', ({ url }) => {
+        if (authenticatedRef.current) {
+          listener(url);
+        } else {
+          pendingUrlRef.current = url;
+        }
+      });
+      return () => {
+        deliverRef.current = null;
+        subscription.remove();
+      };
+    },
+  }), []);
+
+  // Runs after the signed-in screens are mounted, so the parked link has somewhere to go
+  useEffect(() => {
+    const url = pendingUrlRef.current;
+    if (isAuthenticated && url && deliverRef.current) {
+      pendingUrlRef.current = null;
+      deliverRef.current(url);
+    }
+  }, [isAuthenticated]);
+
+  return linking;
+};
@@ -0,0 +1,5 @@
+import { createNavigationContainerRef } from '@react-navigation/native';
+import type { RootStackParamList } from './AppNavigator';
+
+// Lets code outside the screen tree navigate, e.g. when a notification is tapped
+export const navigationRef = createNavigationContainerRef<RootStackParamList>();
@@ -0,0 +1,289 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import * as ImagePicker from 'expo-image-picker';
+import { useNavigation } from '@react-navigation/native';
+import { useAuth } from '../contexts/AuthContext';
+import Avatar from '../components/Avatar';
+import {
+  validateEmail,
+  validateNewPassword,
+  validatePasswordConfirmation,
+  validateRequired,
+  validateUsername,
+} from '../utils/validation';
+
+// Avatars are only ever shown small
+const AVATAR_QUALITY = 0.5;
+
+export default function EditProfileScreen() {
+  const navigation = useNavigation();
+  const { user, updateProfile, updateAvatar, changePassword } = useAuth();
+  const [username, setUsername] = useState(user?.username ?? '');
+  const [email, setEmail] = useState(user?.email ?? '');
+  const [avatarUri, setAvatarUri] = useState(user?.avatarUri);
+  const [profileErrors, setProfileErrors] = useState({ username: '', email: '' });
+  const [savingProfile, setSavingProfile] = useState(false);
+
+  const [passwords, setPasswords] = useState({ current: '', next: '', confirm: '' });
+  const [passwordError, setPasswordError] = useState('');
+  const [savingPassword, setSavingPassword] = useState(false);
+
+  const pickAvatar = async () => {
+    try {
+      const permission = await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (!permission.granted) {
+        Alert.alert('Permission needed', 'Allow photo library access to choose a profile photo.');
+        return;
+      }
+
+      const result = await ImagePicker.launchImageLibraryAsync({
+        mediaTypes: ['images'],
+        allowsEditing: true,
+        aspect: [1, 1],
+        quality: AVATAR_QUALITY,
+      });
+      const asset = result.canceled ? undefined : result.assets[0];
+      if (asset) {
+        // Copied into app storage when the profile is saved
+        setAvatarUri(asset.uri);
+      }
+    } catch (error) {
+      console.error('Error picking avatar:', error);
+      Alert.alert('Error', 'Failed to load the photo');
+    }
+  };
+
+  const handleChangePhoto = () => {
+    Alert.alert('Profile Photo', undefined, [
+      { text: 'Choose from Library', onPress: pickAvatar },
+      ...(avatarUri
+        ? [{ text: 'Use Initials', style: 'destructive' as const, onPress: () => setAvatarUri(undefined) }]
+        : []),
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const handleSaveProfile = async () => {
+    const errors = {
+      username: validateUsername(username),
+      email: validateEmail(email),
+    };
+    setProfileErrors(errors);
+    if (errors.username || errors.email) {
+      return;
+    }
+
+    try {
+      setSavingProfile(true);
+      await updateProfile({
+        username: username.trim(),
+        email: email.trim(),
+      });
+      // Only saved once the account update went through, so a failure leaves no file behind
+      if (avatarUri !== user?.avatarUri) {
+        await updateAvatar(avatarUri ?? null);
+      }
+      navigation.goBack();
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update profile');
+    } finally {
+      setSavingProfile(false);
+    }
+  };
+
+  const handleChangePassword = async () => {
+    const error =
+      validateRequired(passwords.current, 'Current password') ||
+      validateNewPassword(passwords.next) ||
+      validatePasswordConfirmation(passwords.next, passwords.confirm);
+    setPasswordError(error);
+    if (error) {
+      return;
+    }
+
+    try {
+      setSavingPassword(true);
+      await changePassword(passwords.current, passwords.next);
+      setPasswords({ current: '', next: '', confirm: '' });
+      Alert.alert('Password updated', 'Use your new password next time you sign in.');
+    } catch (err) {
+      setPasswordError(err instanceof Error ? err.message : 'Failed to change password');
+    } finally {
+      setSavingPassword(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardAvoid}
+      >
+        <ScrollView contentContainerStyle={styles.content}>
+          <TouchableOpacity style={styles.avatarButton} onPress={handleChangePhoto}>
+            <Avatar name={username || user?.username} uri={avatarUri} size={100} />
+            <Text style={styles.changePhotoText}>Change Photo</Text>
+          </TouchableOpacity>
+
+          <Text style={styles.sectionTitle}>Profile</Text>
+          <Text style={styles.label}>Username</Text>
+          <TextInput
+            style={styles.input}
+            value={username}
+            onChangeText={setUsername}
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          {profileErrors.username ? (
+            <Text style={styles.errorText}>{profileErrors.username}</Text>
+          ) : null}
+
+          <Text style={styles.label}>Email</Text>
+          <TextInput
+            style={styles.input}
+            value={email}
+            onChangeText={setEmail}
+            keyboardType="email-address"
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          {profileErrors.email ? (
+            <Text style={styles.errorText}>{profileErrors.email}</Text>
+          ) : null}
+
+          <TouchableOpacity
+            style={[styles.button, savingProfile && styles.buttonDisabled]}
+            onPress={handleSaveProfile}
+            disabled={savingProfile}
+          >
+            {savingProfile ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.buttonText}>Save Profile</Text>
+            )}
+          </TouchableOpacity>
+
+          <Text style={styles.sectionTitle}>Change Password</Text>
+          <TextInput
+            style={styles.input}
+            placeholder="Current Password"
+            value={passwords.current}
+            onChangeText={(text) => setPasswords({ ...passwords, current: text })}
+            secureTextEntry
+          />
+          <TextInput
+            style={styles.input}
+            placeholder="New Password"
+            value={passwords.next}
+            onChangeText={(text) => setPasswords({ ...passwords, next: text })}
+            secureTextEntry
+          />
+          <TextInput
+            style={styles.input}
+            placeholder="Confirm New Password"
+            value={passwords.confirm}
+            onChangeText={(text) => setPasswords({ ...passwords, confirm: text })}
+            secureTextEntry
+          />
+          {passwordError ? <Text style={styles.errorText}>{passwordError}</Text> : null}
+
+          <TouchableOpacity
+            style={[styles.button, styles.secondaryButton, savingPassword && styles.buttonDisabled]}
+            onPress={handleChangePassword}
+            disabled={savingPassword}
+          >
+            {savingPassword ? (
+              <ActivityIndicator color="#ff6b6b" />
+            ) : (
+              <Text style={styles.secondaryButtonText}>Update Password</Text>
+            )}
+          </TouchableOpacity>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  keyboardAvoid: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+  },
+  avatarButton: {
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  changePhotoText: {
+    marginTop: 10,
+    color: '#ff6b6b',
+    fontSize: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 20,
+    marginBottom: 15,
+  },
+  label: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 5,
+  },
+  input: {
+    backgroundColor: '#f8f9fa',
+    padding: 15,
+    borderRadius: 10,
+    marginBottom: 10,
+    fontSize: 16,
+  },
+  errorText: {
+    color: '#ff3b30',
+    fontSize: 12,
+    marginBottom: 10,
+    marginLeft: 15,
+  },
+  button: {
+    backgroundColor: '#ff6b6b',
+    padding: 15,
+    borderRadius: 10,
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  secondaryButton: {
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#ff6b6b',
+  },
+  secondaryButtonText: {
+    color: '#ff6b6b',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
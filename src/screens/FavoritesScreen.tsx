@@ -1,80 +1,190 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
   StyleSheet,
-  FlatList,
   Image,
   TouchableOpacity,
   RefreshControl,
+  Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { ENV } from '../config/env';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import DraggableFlatList, { RenderItemParams, ScaleDecorator } from 'react-native-draggable-flatlist';
+import Swipeable from 'react-native-gesture-handler/ReanimatedSwipeable';
 import { Restaurant } from '../hooks/useRestaurants';
+import { usePreferences } from '../contexts/PreferencesContext';
+import { useFavorites } from '../contexts/FavoritesContext';
+import { RemovedFavorite } from '../services/favoritesRepository';
+import { RootStackParamList } from '../navigation/AppNavigator';
+import { formatDistance } from '../utils/distance';
+import Snackbar from '../components/Snackbar';
+import OpenStatusLabel from '../components/OpenStatusLabel';
+
+type FavoritesNavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
 export default function FavoritesScreen() {
-  const [favorites, setFavorites] = useState<Restaurant[]>([]);
+  const navigation = useNavigation<FavoritesNavigationProp>();
   const [refreshing, setRefreshing] = useState(false);
+  const [selecting, setSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [lastRemoved, setLastRemoved] = useState<RemovedFavorite[]>([]);
+  const { preferences } = usePreferences();
+  const {
+    favorites,
+    refreshFavorites,
+    removeFavorites,
+    restoreFavorites,
+    reorderFavorites,
+  } = useFavorites();
 
-  const loadFavorites = async () => {
+  const onRefresh = async () => {
+    setRefreshing(true);
     try {
-      const favoritesString = await AsyncStorage.getItem(ENV.STORAGE_KEYS.FAVORITES);
-      if (favoritesString) {
-        const loadedFavorites = JSON.parse(favoritesString);
-        setFavorites(loadedFavorites);
-      }
+      await refreshFavorites();
     } catch (err) {
       console.error('Error loading favorites:', err);
+    } finally {
+      setRefreshing(false);
     }
   };
 
-  const onRefresh = async () => {
-    setRefreshing(true);
-    await loadFavorites();
-    setRefreshing(false);
+  const removeWithUndo = async (restaurantIds: string[]) => {
+    try {
+      const removed = await removeFavorites(restaurantIds);
+      setLastRemoved(removed);
+    } catch (err) {
+      console.error('Error removing favorites:', err);
+      Alert.alert('Error', 'Failed to remove favorites');
+    }
   };
 
-  useEffect(() => {
-    loadFavorites();
-  }, []);
+  const handleUndo = async () => {
+    const entries = lastRemoved;
+    setLastRemoved([]);
+    try {
+      await restoreFavorites(entries);
+    } catch (err) {
+      console.error('Error restoring favorites:', err);
+    }
+  };
 
-  const renderRestaurantItem = ({ item }: { item: Restaurant }) => {
+  const handleDragEnd = async ({ data }: { data: Restaurant[] }) => {
+    try {
+      await reorderFavorites(data.map(item => item.id));
+    } catch (err) {
+      console.error('Error reordering favorites:', err);
+    }
+  };
+
+  const toggleSelecting = () => {
+    setSelecting(!selecting);
+    setSelectedIds([]);
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev =>
+      prev.includes(id) ? prev.filter(selectedId => selectedId !== id) : [...prev, id]
+    );
+  };
+
+  const handleRemoveSelected = async () => {
+    const ids = selectedIds;
+    setSelecting(false);
+    setSelectedIds([]);
+    await removeWithUndo(ids);
+  };
+
+  const handleItemPress = (item: Restaurant) => {
+    if (selecting) {
+      toggleSelected(item.id);
+    } else {
+      navigation.navigate('RestaurantDetail', { id: item.id, restaurant: item });
+    }
+  };
+
+  const renderDeleteAction = () => (
+    <View style={styles.deleteAction}>
+      <Ionicons name="trash-outline" size={28} color="#fff" />
+      <Text style={styles.deleteActionText}>Remove</Text>
+    </View>
+  );
+
+  const renderRestaurantItem = ({ item, drag, isActive }: RenderItemParams<Restaurant>) => {
     if (!item) return null;
+    const selected = selectedIds.includes(item.id);
     return (
-      <TouchableOpacity style={styles.card}>
-        <Image source={{ uri: item.image_url }} style={styles.image} />
-        <View style={styles.content}>
-          <Text style={styles.name}>{item.name}</Text>
-          <View style={styles.ratingContainer}>
-            <Ionicons name="star" size={16} color="#FFD700" />
-            <Text style={styles.rating}>{item.rating}</Text>
-          </View>
-          {item.price && (
-            <Text style={styles.price}>{item.price}</Text>
-          )}
-          <Text style={styles.address}>{item.location.address1}</Text>
-          {item.distance && (
-            <Text style={styles.distance}>
-              {(item.distance / 1000).toFixed(1)} km away
-            </Text>
-          )}
-        </View>
-      </TouchableOpacity>
+      <ScaleDecorator>
+        <Swipeable
+          enabled={!selecting && !isActive}
+          renderRightActions={renderDeleteAction}
+          rightThreshold={80}
+          onSwipeableOpen={() => removeWithUndo([item.id])}
+        >
+          <TouchableOpacity
+            style={[styles.card, selected && styles.cardSelected]}
+            onPress={() => handleItemPress(item)}
+            onLongPress={selecting ? undefined : drag}
+            disabled={isActive}
+            activeOpacity={0.9}
+          >
+            <Image source={{ uri: item.image_url }} style={styles.image} />
+            {selecting && (
+              <View style={styles.checkbox}>
+                <Ionicons
+                  name={selected ? 'checkmark-circle' : 'ellipse-outline'}
+                  size={28}
+                  color={selected ? '#ff6b6b' : '#fff'}
+                />
+              </View>
+            )}
+            <View style={styles.content}>
+              <Text style={styles.name}>{item.name}</Text>
+              <View style={styles.ratingContainer}>
+                <Ionicons name="star" size={16} color="#FFD700" />
+                <Text style={styles.rating}>{item.rating}</Text>
+              </View>
+              {item.price && (
+                <Text style={styles.price}>{item.price}</Text>
+              )}
+              {/* Saved snapshots go stale, so fetch the hours and work it out now */}
+              <OpenStatusLabel restaurant={item} load style={styles.openStatus} />
+              <Text style={styles.address}>{item.location.address1}</Text>
+              {item.distance > 0 && (
+                <Text style={styles.distance}>
+                  {formatDistance(item.distance, preferences.distanceUnit)} away
+                </Text>
+              )}
+            </View>
+          </TouchableOpacity>
+        </Swipeable>
+      </ScaleDecorator>
     );
   };
 
+  const visibleFavorites = favorites.filter(Boolean);
+
   return (
     <SafeAreaView style={styles.container}>
       <View style={styles.header}>
+        <View style={styles.headerSide} />
         <Text style={styles.headerTitle}>Favorites</Text>
+        <View style={styles.headerSide}>
+          {visibleFavorites.length > 0 && (
+            <TouchableOpacity onPress={toggleSelecting}>
+              <Text style={styles.headerAction}>{selecting ? 'Cancel' : 'Select'}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
       </View>
-      {favorites.filter(Boolean).length > 0 ? (
-        <FlatList
-          data={favorites.filter(Boolean)}
+      {visibleFavorites.length > 0 ? (
+        <DraggableFlatList
+          data={visibleFavorites}
           renderItem={renderRestaurantItem}
-          keyExtractor={(item) => item?.id || Math.random().toString()}
+          keyExtractor={(item) => item.id}
+          onDragEnd={handleDragEnd}
           contentContainerStyle={styles.list}
           refreshControl={
             <RefreshControl
@@ -94,6 +204,28 @@ export default function FavoritesScreen() {
           </Text>
         </View>
       )}
+      {selecting && (
+        <TouchableOpacity
+          style={[styles.bulkRemoveButton, selectedIds.length === 0 && styles.bulkRemoveButtonDisabled]}
+          onPress={handleRemoveSelected}
+          disabled={selectedIds.length === 0}
+        >
+          <Text style={styles.bulkRemoveText}>
+            Remove {selectedIds.length > 0 ? `(${selectedIds.length})` : ''}
+          </Text>
+        </TouchableOpacity>
+      )}
+      <Snackbar
+        visible={lastRemoved.length > 0}
+        message={
+          lastRemoved.length === 1
+            ? `Removed ${lastRemoved[0].restaurant.name}`
+            : `Removed ${lastRemoved.length} favorites`
+        }
+        actionLabel="Undo"
+        onAction={handleUndo}
+        onDismiss={() => setLastRemoved([])}
+      />
     </SafeAreaView>
   );
 }
@@ -104,17 +236,28 @@ const styles = StyleSheet.create({
     backgroundColor: '#f8f9fa',
   },
   header: {
+    flexDirection: 'row',
+    alignItems: 'center',
     padding: 15,
     borderBottomWidth: 1,
     borderBottomColor: '#eee',
     backgroundColor: '#fff',
   },
   headerTitle: {
+    flex: 1,
     fontSize: 20,
     fontWeight: 'bold',
     color: '#ff6b6b',
     textAlign: 'center',
   },
+  headerSide: {
+    width: 60,
+    alignItems: 'flex-end',
+  },
+  headerAction: {
+    fontSize: 16,
+    color: '#ff6b6b',
+  },
   list: {
     padding: 15,
   },
@@ -132,10 +275,47 @@ const styles = StyleSheet.create({
     elevation: 5,
     overflow: 'hidden',
   },
+  cardSelected: {
+    borderWidth: 2,
+    borderColor: '#ff6b6b',
+  },
   image: {
     width: '100%',
     height: 150,
   },
+  checkbox: {
+    position: 'absolute',
+    top: 10,
+    right: 10,
+  },
+  deleteAction: {
+    width: 100,
+    marginBottom: 15,
+    borderRadius: 15,
+    backgroundColor: '#e74c3c',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  deleteActionText: {
+    color: '#fff',
+    marginTop: 5,
+    fontWeight: 'bold',
+  },
+  bulkRemoveButton: {
+    margin: 15,
+    padding: 15,
+    backgroundColor: '#ff6b6b',
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  bulkRemoveButtonDisabled: {
+    opacity: 0.5,
+  },
+  bulkRemoveText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
   content: {
     padding: 15,
   },
@@ -159,6 +339,9 @@ const styles = StyleSheet.create({
     color: '#2ecc71',
     marginBottom: 5,
   },
+  openStatus: {
+    marginBottom: 5,
+  },
   address: {
     fontSize: 14,
     color: '#666',
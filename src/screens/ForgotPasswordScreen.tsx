@@ -0,0 +1,246 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  KeyboardAvoidingView,
+  Platform,
+  ScrollView,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { NativeStackScreenProps } from '@react-navigation/native-stack';
+import { useAuth } from '../contexts/AuthContext';
+import { AuthStackParamList } from '../navigation/AppNavigator';
+import {
+  validateEmail,
+  validateNewPassword,
+  validatePasswordConfirmation,
+  validateRequired,
+} from '../utils/validation';
+
+type Props = NativeStackScreenProps<AuthStackParamList, 'ForgotPassword'>;
+
+type ResetStep = 'request' | 'verify' | 'reset';
+
+export default function ForgotPasswordScreen({ navigation, route }: Props) {
+  const { requestPasswordReset, verifyResetCode, resetPassword } = useAuth();
+  const [step, setStep] = useState<ResetStep>('request');
+  const [email, setEmail] = useState(route.params?.email ?? '');
+  const [code, setCode] = useState('');
+  const [resetToken, setResetToken] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const submit = async (validationError: string, action: () => Promise<void>) => {
+    setError(validationError);
+    if (validationError) {
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRequestCode = () =>
+    submit(validateEmail(email), async () => {
+      await requestPasswordReset(email.trim());
+      setCode('');
+      setStep('verify');
+    });
+
+  const handleVerifyCode = () =>
+    submit(validateRequired(code.trim(), 'Code'), async () => {
+      setResetToken(await verifyResetCode(email.trim(), code.trim()));
+      setStep('reset');
+    });
+
+  const handleResetPassword = () =>
+    submit(
+      validateNewPassword(password) || validatePasswordConfirmation(password, confirmPassword),
+      async () => {
+        await resetPassword(resetToken, password);
+        Alert.alert('Password updated', 'You can now sign in with your new password.', [
+          { text: 'OK', onPress: () => navigation.navigate('Login') },
+        ]);
+      }
+    );
+
+  const renderStep = () => {
+    switch (step) {
+      case 'request':
+        return (
+          <>
+            <Text style={styles.subtitle}>
+              Enter the email address you signed up with and we'll send you a reset code.
+            </Text>
+            <TextInput
+              style={styles.input}
+              placeholder="Email"
+              value={email}
+              onChangeText={setEmail}
+              keyboardType="email-address"
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+          </>
+        );
+      case 'verify':
+        return (
+          <>
+            <Text style={styles.subtitle}>
+              If an account exists for {email.trim()}, a code is on its way. Enter it below.
+            </Text>
+            <TextInput
+              style={[styles.input, styles.codeInput]}
+              placeholder="000000"
+              value={code}
+              onChangeText={setCode}
+              keyboardType="number-pad"
+              maxLength={6}
+            />
+          </>
+        );
+      case 'reset':
+        return (
+          <>
+            <Text style={styles.subtitle}>Choose a new password.</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="New Password"
+              value={password}
+              onChangeText={setPassword}
+              secureTextEntry
+            />
+            <TextInput
+              style={styles.input}
+              placeholder="Confirm New Password"
+              value={confirmPassword}
+              onChangeText={setConfirmPassword}
+              secureTextEntry
+            />
+          </>
+        );
+    }
+  };
+
+  const actions: Record<ResetStep, { label: string; onPress: () => Promise<void> }> = {
+    request: { label: 'Send Code', onPress: handleRequestCode },
+    verify: { label: 'Verify Code', onPress: handleVerifyCode },
+    reset: { label: 'Set Password', onPress: handleResetPassword },
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        style={styles.keyboardAvoid}
+      >
+        <ScrollView contentContainerStyle={styles.content}>
+          {renderStep()}
+          {error ? <Text style={styles.errorText}>{error}</Text> : null}
+
+          <TouchableOpacity
+            style={[styles.button, isSubmitting && styles.buttonDisabled]}
+            onPress={actions[step].onPress}
+            disabled={isSubmitting}
+          >
+            {isSubmitting ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <Text style={styles.buttonText}>{actions[step].label}</Text>
+            )}
+          </TouchableOpacity>
+
+          {step === 'verify' && (
+            <View style={styles.secondaryActions}>
+              <TouchableOpacity onPress={handleRequestCode} disabled={isSubmitting}>
+                <Text style={styles.linkText}>Resend code</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => {
+                  setError('');
+                  setStep('request');
+                }}
+                disabled={isSubmitting}
+              >
+                <Text style={styles.linkText}>Use a different email</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  keyboardAvoid: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#666',
+    marginBottom: 20,
+  },
+  input: {
+    backgroundColor: '#f8f9fa',
+    padding: 15,
+    borderRadius: 10,
+    marginBottom: 10,
+    fontSize: 16,
+  },
+  codeInput: {
+    fontSize: 24,
+    letterSpacing: 8,
+    textAlign: 'center',
+  },
+  errorText: {
+    color: '#ff3b30',
+    fontSize: 12,
+    marginBottom: 10,
+    marginLeft: 15,
+  },
+  button: {
+    backgroundColor: '#ff6b6b',
+    padding: 15,
+    borderRadius: 10,
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  buttonDisabled: {
+    opacity: 0.7,
+  },
+  buttonText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  secondaryActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 20,
+  },
+  linkText: {
+    color: '#ff6b6b',
+    fontSize: 14,
+  },
+});
@@ -14,13 +14,25 @@ import {
   Alert,
   PanResponder,
   Animated,
+  Linking,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { useRestaurants, Restaurant } from '../hooks/useRestaurants';
+import { useRestaurants, Restaurant, SwipeAction } from '../hooks/useRestaurants';
 import { ENV } from '../config/env';
-import { CompositeNavigationProp } from '@react-navigation/native';
+import { usePreferences } from '../contexts/PreferencesContext';
+import { useFavorites } from '../contexts/FavoritesContext';
+import { useSwipeHistory } from '../hooks/useSwipeHistory';
+import { useShake } from '../hooks/useShake';
+import { CUISINES, getCuisine } from '../utils/cuisines';
+import { getDietaryOption } from '../utils/dietary';
+import { filtersFromProfile } from '../services/preferences';
+import { DistanceUnit, formatDistance, formatRadius, kmToUnit, unitToKm } from '../utils/distance';
+import Slider from '../components/Slider';
+import OpenStatusLabel from '../components/OpenStatusLabel';
+import OfflineBanner from '../components/OfflineBanner';
+import { ApiErrorKind } from '../services/apiErrors';
+import { CompositeNavigationProp, useIsFocused } from '@react-navigation/native';
 import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { RootStackParamList, TabParamList } from '../navigation/AppNavigator';
@@ -39,6 +51,61 @@ const SCREEN_WIDTH = Dimensions.get('window').width;
 const SWIPE_THRESHOLD = 0.25 * SCREEN_WIDTH;
 const SWIPE_OUT_DURATION = 250;
 
+type ErrorAction = 'retry' | 'settings';
+
+// How each kind of failure is explained on the card stack, and the ways out of it
+const ERROR_STATES: Record<ApiErrorKind, {
+  icon: keyof typeof Ionicons.glyphMap;
+  message: string;
+  actions: ErrorAction[];
+}> = {
+  network: {
+    icon: 'cloud-offline-outline',
+    message: 'You\'re offline. Check your connection and try again.',
+    actions: ['retry'],
+  },
+  quota: {
+    icon: 'hourglass-outline',
+    message: 'We\'re getting a lot of requests right now. Please try again in a few minutes.',
+    actions: ['retry'],
+  },
+  denied: {
+    icon: 'lock-closed-outline',
+    message: 'Restaurant search isn\'t available right now. We\'re looking into it.',
+    actions: [],
+  },
+  invalid_request: {
+    icon: 'alert-circle-outline',
+    message: 'Something went wrong loading restaurants.',
+    actions: ['retry'],
+  },
+  not_found: {
+    icon: 'alert-circle-outline',
+    message: 'Something went wrong loading restaurants.',
+    actions: ['retry'],
+  },
+  server: {
+    icon: 'alert-circle-outline',
+    message: 'Restaurant search is having trouble. Please try again.',
+    actions: ['retry'],
+  },
+  location_permission: {
+    icon: 'location-outline',
+    message: 'FlavorFinder needs your location to find restaurants near you.',
+    actions: ['settings', 'retry'],
+  },
+  location_unavailable: {
+    icon: 'location-outline',
+    message: 'We couldn\'t get your location. Make sure location services are turned on.',
+    actions: ['retry'],
+  },
+  unknown: {
+    icon: 'alert-circle-outline',
+    message: 'Failed to fetch restaurants.',
+    actions: ['retry'],
+  },
+};
+
 interface Address {
   address1: string;
   city: string;
@@ -47,35 +114,64 @@ interface Address {
 }
 
 export function HomeScreen({ navigation }: Props) {
+  const { addFavorite, removeFavorite, isFavorite } = useFavorites();
+  const { history, loading: historyLoading, recordSwipe, removeSwipe } = useSwipeHistory();
+  const { preferences, loading: preferencesLoading, updatePreferences } = usePreferences();
+  const appliedFilters = preferences.filters;
+  const distanceUnit = preferences.distanceUnit;
+  // filterParams is the draft edited in the modal, the saved preferences drive the search
   const [filterParams, setFilterParams] = useState({
+    radius: ENV.DEFAULTS.SEARCH_RADIUS,
+    distanceUnit: 'mi' as DistanceUnit,
     rating: 0,
     price: [] as string[],
+    includeCuisines: [] as string[],
+    excludeCuisines: [] as string[],
   });
   const [showFilterModal, setShowFilterModal] = useState(false);
-  const { currentRestaurant, loading, error, nextRestaurant } = useRestaurants({
-    radius: 5000,
-    rating: 3.5,
-    price: ['$', '$$'],
-  });
+  const {
+    currentRestaurant,
+    loading,
+    error,
+    nextRestaurant,
+    refreshRestaurants,
+    retry,
+    undoSwipe,
+    canUndo,
+    loadingMore,
+    offline,
+    cachedAt,
+  } = useRestaurants(
+    appliedFilters,
+    {
+      enabled: !preferencesLoading && !historyLoading,
+      swipeHistory: history,
+      hidePassedDays: preferences.hidePassedDays,
+      profile: preferences.profile,
+    }
+  );
 
+  // Read by the pan responder's callbacks. Kept in step with the deck on every render,
+  // so an emptied deck never leaves a swiped card on screen to be swiped again.
   const currentRestaurantRef = useRef<Restaurant | null>(null);
+  currentRestaurantRef.current = currentRestaurant ?? null;
   const position = useRef(new Animated.ValueXY()).current;
 
   useEffect(() => {
     if (currentRestaurant) {
       console.log('Setting current restaurant:', currentRestaurant.name);
-      currentRestaurantRef.current = currentRestaurant;
     }
   }, [currentRestaurant]);
 
-  const handleNextRestaurant = () => {
+  const handleNextRestaurant = (swipe: SwipeAction) => {
     console.log('Calling nextRestaurant');
-    nextRestaurant();
+    nextRestaurant(swipe);
   };
 
   const panResponder = useRef(
     PanResponder.create({
-      onStartShouldSetPanResponder: () => true,
+      // Nothing to swipe while the deck waits on its next page
+      onStartShouldSetPanResponder: () => !!currentRestaurantRef.current,
       onPanResponderMove: (_, gesture) => {
         position.setValue({ x: gesture.dx, y: gesture.dy });
       },
@@ -105,7 +201,7 @@ export function HomeScreen({ navigation }: Props) {
     }).start(() => {
       console.log('Swipe animation completed');
       position.setValue({ x: 0, y: 0 });
-      onSwipeComplete(direction);
+      onSwipeCompleteRef.current(direction);
     });
   };
 
@@ -113,14 +209,56 @@ export function HomeScreen({ navigation }: Props) {
     const restaurant = currentRestaurantRef.current;
     console.log('Swipe complete:', { direction, currentRestaurant: restaurant });
     if (restaurant) {
+      const addedFavorite = direction === 'right' && !isFavorite(restaurant.id);
       if (direction === 'right') {
         console.log('Adding to favorites:', restaurant.name);
         addToFavorites(restaurant);
       }
-      handleNextRestaurant();
+      recordSwipe(restaurant, direction === 'right' ? 'liked' : 'passed').catch(err => {
+        console.error('Error saving swipe:', err);
+      });
+      handleNextRestaurant({ direction, addedFavorite });
     }
   };
 
+  // The pan responder is created once, so it reaches the latest handler through a ref
+  const onSwipeCompleteRef = useRef(onSwipeComplete);
+  onSwipeCompleteRef.current = onSwipeComplete;
+
+  const handleUndo = () => {
+    const entry = undoSwipe();
+    if (!entry) {
+      return;
+    }
+    console.log('Undoing swipe:', { direction: entry.direction, restaurant: entry.restaurant.name });
+
+    if (entry.addedFavorite) {
+      removeFavorite(entry.restaurant.id).catch(err => {
+        console.error('Error removing favorite:', err);
+      });
+    }
+    removeSwipe(entry.restaurant.id).catch(err => {
+      console.error('Error reverting swipe:', err);
+    });
+
+    // Fly the card back in from the side it left
+    currentRestaurantRef.current = entry.restaurant;
+    position.setValue({
+      x: entry.direction === 'right' ? SCREEN_WIDTH : -SCREEN_WIDTH,
+      y: 0,
+    });
+    Animated.spring(position, {
+      toValue: { x: 0, y: 0 },
+      friction: 6,
+      useNativeDriver: false,
+    }).start();
+  };
+
+  // Home stays mounted under other tabs and stacked screens; a shake there mustn't
+  // undo a swipe the user can't see
+  const isFocused = useIsFocused();
+  useShake(handleUndo, canUndo && isFocused);
+
   const resetPosition = () => {
     console.log('Resetting position');
     Animated.spring(position, {
@@ -145,24 +283,72 @@ export function HomeScreen({ navigation }: Props) {
   const addToFavorites = async (restaurant: Restaurant) => {
     try {
       console.log('Attempting to add to favorites:', restaurant);
-      const existingFavoritesString = await AsyncStorage.getItem(ENV.STORAGE_KEYS.FAVORITES);
-      const existingFavorites = existingFavoritesString ? JSON.parse(existingFavoritesString) : [];
-      
-      // Check if restaurant is already in favorites
-      const isAlreadyFavorite = existingFavorites.some((fav: Restaurant) => fav.id === restaurant.id);
-      
-      if (!isAlreadyFavorite) {
-        const updatedFavorites = [...existingFavorites, restaurant];
-        await AsyncStorage.setItem(ENV.STORAGE_KEYS.FAVORITES, JSON.stringify(updatedFavorites));
-        console.log('Successfully added to favorites:', restaurant.name);
-      } else {
-        console.log('Restaurant already in favorites:', restaurant.name);
-      }
+      await addFavorite(restaurant);
+      console.log('Successfully added to favorites:', restaurant.name);
     } catch (err) {
       console.error('Error saving to favorites:', err);
     }
   };
 
+  const openFilters = () => {
+    setFilterParams({
+      radius: appliedFilters.radius ?? ENV.DEFAULTS.SEARCH_RADIUS,
+      distanceUnit,
+      rating: appliedFilters.rating ?? 0,
+      price: appliedFilters.price ?? [],
+      includeCuisines: appliedFilters.includeCuisines ?? [],
+      excludeCuisines: appliedFilters.excludeCuisines ?? [],
+    });
+    setShowFilterModal(true);
+  };
+
+  // Back to the defaults from the Preferences screen
+  const resetFilters = () => {
+    const defaults = filtersFromProfile(preferences.profile);
+    setFilterParams(prev => ({
+      ...prev,
+      radius: defaults.radius ?? ENV.DEFAULTS.SEARCH_RADIUS,
+      rating: defaults.rating ?? 0,
+      price: defaults.price ?? [],
+      includeCuisines: [],
+      excludeCuisines: [],
+    }));
+  };
+
+  const applyFilters = async () => {
+    const { distanceUnit: unit, ...draftFilters } = filterParams;
+    const filters = { ...appliedFilters, ...draftFilters };
+    const filtersChanged = JSON.stringify(filters) !== JSON.stringify(appliedFilters);
+    setShowFilterModal(false);
+
+    try {
+      const saving = updatePreferences({ filters, distanceUnit: unit });
+      if (filtersChanged) {
+        refreshRestaurants();
+      }
+      await saving;
+    } catch (err) {
+      console.error('Error saving filters:', err);
+    }
+  };
+
+  // Cuisine chips cycle through neutral -> include -> exclude
+  const toggleCuisine = (id: string) => {
+    setFilterParams(prev => {
+      if (prev.includeCuisines.includes(id)) {
+        return {
+          ...prev,
+          includeCuisines: prev.includeCuisines.filter(c => c !== id),
+          excludeCuisines: [...prev.excludeCuisines, id],
+        };
+      }
+      if (prev.excludeCuisines.includes(id)) {
+        return { ...prev, excludeCuisines: prev.excludeCuisines.filter(c => c !== id) };
+      }
+      return { ...prev, includeCuisines: [...prev.includeCuisines, id] };
+    });
+  };
+
   const formatAddress = (location: string | Address) => {
     if (typeof location === 'string') {
       try {
@@ -184,8 +370,56 @@ export function HomeScreen({ navigation }: Props) {
     >
       <View style={styles.filterModal}>
         <View style={styles.filterContent}>
-          <Text style={styles.filterTitle}>Filters</Text>
+          <View style={styles.filterHeader}>
+            <Text style={styles.filterTitle}>Filters</Text>
+            <TouchableOpacity onPress={resetFilters}>
+              <Text style={styles.resetText}>Reset</Text>
+            </TouchableOpacity>
+          </View>
+          {preferences.profile.dietary.length > 0 && (
+            <Text style={styles.filterHint}>
+              Dietary needs: {preferences.profile.dietary
+                .map(id => getDietaryOption(id)?.label)
+                .join(', ')}
+            </Text>
+          )}
           
+          <View style={styles.radiusHeader}>
+            <Text style={styles.filterLabel}>Distance</Text>
+            <Text style={styles.radiusValue}>
+              Within {formatRadius(filterParams.radius, filterParams.distanceUnit)}
+            </Text>
+          </View>
+          <Slider
+            value={Math.round(kmToUnit(filterParams.radius / 1000, filterParams.distanceUnit))}
+            minimumValue={1}
+            maximumValue={Math.floor(kmToUnit(ENV.DEFAULTS.MAX_SEARCH_RADIUS / 1000, filterParams.distanceUnit))}
+            onValueChange={(value) => setFilterParams(prev => ({
+              ...prev,
+              radius: Math.min(
+                ENV.DEFAULTS.MAX_SEARCH_RADIUS,
+                Math.round(unitToKm(value, prev.distanceUnit) * 1000)
+              ),
+            }))}
+          />
+          <View style={styles.unitButtons}>
+            {([['mi', 'Miles'], ['km', 'Kilometres']] as [DistanceUnit, string][]).map(([unit, label]) => (
+              <TouchableOpacity
+                key={unit}
+                style={[
+                  styles.unitButton,
+                  filterParams.distanceUnit === unit && styles.unitButtonActive,
+                ]}
+                onPress={() => setFilterParams(prev => ({ ...prev, distanceUnit: unit }))}
+              >
+                <Text style={[
+                  styles.unitButtonText,
+                  filterParams.distanceUnit === unit && styles.unitButtonTextActive,
+                ]}>{label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
           <Text style={styles.filterLabel}>Price</Text>
           <View style={styles.priceButtons}>
             {['$', '$$', '$$$', '$$$$'].map((price) => (
@@ -233,9 +467,39 @@ export function HomeScreen({ navigation }: Props) {
             ))}
           </View>
 
+          <Text style={styles.filterLabel}>Cuisines</Text>
+          <Text style={styles.filterHint}>Tap once to include, twice to exclude</Text>
+          <View style={styles.cuisineChips}>
+            {CUISINES.map((cuisine) => {
+              // Disliked cuisines are managed on the Preferences screen
+              const disliked = preferences.profile.dislikedCuisines.includes(cuisine.id);
+              const included = !disliked && filterParams.includeCuisines.includes(cuisine.id);
+              const excluded = disliked || filterParams.excludeCuisines.includes(cuisine.id);
+              return (
+                <TouchableOpacity
+                  key={cuisine.id}
+                  style={[
+                    styles.cuisineChip,
+                    included && styles.cuisineChipIncluded,
+                    excluded && styles.cuisineChipExcluded,
+                    disliked && styles.cuisineChipLocked,
+                  ]}
+                  onPress={() => toggleCuisine(cuisine.id)}
+                  disabled={disliked}
+                >
+                  {excluded && <Ionicons name="close" size={14} color="white" />}
+                  <Text style={[
+                    styles.cuisineChipText,
+                    (included || excluded) && styles.cuisineChipTextActive,
+                  ]}>{cuisine.label}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
           <TouchableOpacity
             style={styles.applyButton}
-            onPress={() => setShowFilterModal(false)}
+            onPress={applyFilters}
           >
             <Text style={styles.applyButtonText}>Apply Filters</Text>
           </TouchableOpacity>
@@ -247,23 +511,59 @@ export function HomeScreen({ navigation }: Props) {
   const renderHeader = () => (
     <View style={styles.header}>
       <TouchableOpacity 
-        onPress={() => setShowFilterModal(true)}
+        onPress={openFilters}
         style={styles.filterButton}
       >
         <Ionicons name="filter" size={24} color="#FF6B6B" />
       </TouchableOpacity>
       <Text style={styles.headerTitle}>FlavorFinder</Text>
-      <View style={styles.headerRight} />
+      <TouchableOpacity
+        onPress={handleUndo}
+        disabled={!canUndo}
+        style={styles.undoButton}
+      >
+        <Ionicons name="arrow-undo" size={24} color={canUndo ? '#FF6B6B' : '#ddd'} />
+      </TouchableOpacity>
     </View>
   );
 
+  const renderError = () => {
+    const state = ERROR_STATES[error.kind];
+    return (
+      <View style={styles.messageContainer}>
+        <Ionicons name={state.icon} size={48} color="#ccc" />
+        <Text style={styles.messageText}>{state.message}</Text>
+        <View style={styles.errorActions}>
+          {state.actions.map(action => (
+            <TouchableOpacity
+              key={action}
+              style={[styles.errorButton, action === 'retry' && styles.errorButtonPrimary]}
+              onPress={action === 'retry' ? retry : () => Linking.openSettings()}
+            >
+              <Text style={[styles.errorButtonText, action === 'retry' && styles.errorButtonTextPrimary]}>
+                {action === 'retry' ? 'Try Again' : 'Open Settings'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+    );
+  };
+
   const renderCard = () => {
     const restaurant = currentRestaurantRef.current;
     if (!restaurant) {
+      if (error && !loading) {
+        return renderError();
+      }
       return (
         <View style={styles.messageContainer}>
           <Text style={styles.messageText}>
-            {loading ? 'Loading restaurants...' : error || 'No restaurants found'}
+            {loadingMore
+              ? 'Loading more restaurants...'
+              : loading
+              ? 'Loading restaurants...'
+              : 'No restaurants found in your area. Try adjusting your filters.'}
           </Text>
         </View>
       );
@@ -285,7 +585,7 @@ export function HomeScreen({ navigation }: Props) {
     return (
       <TouchableOpacity
         style={styles.card}
-        onPress={() => navigation.navigate('RestaurantDetail', { id: restaurant.id })}
+        onPress={() => navigation.navigate('RestaurantDetail', { id: restaurant.id, restaurant })}
         activeOpacity={0.9}
       >
         <Image
@@ -295,13 +595,22 @@ export function HomeScreen({ navigation }: Props) {
         />
         <View style={styles.cardContent}>
           <Text style={styles.name}>{restaurant.name}</Text>
+          {restaurant.categories.some(category => getCuisine(category.alias)) && (
+            <Text style={styles.subtitle}>
+              {restaurant.categories
+                .filter(category => getCuisine(category.alias))
+                .map(category => category.title)
+                .join(' · ')}
+            </Text>
+          )}
           <View style={styles.ratingContainer}>
             <Ionicons name="star" size={20} color="#FFD700" />
             <Text style={styles.rating}>{restaurant.rating.toFixed(1)}</Text>
           </View>
           <Text style={styles.price}>{restaurant.price}</Text>
+          <OpenStatusLabel restaurant={restaurant} style={styles.openStatus} />
           <Text style={styles.address}>{restaurant.location.address1}</Text>
-          <Text style={styles.distance}>{restaurant.distance.toFixed(1)} miles away</Text>
+          <Text style={styles.distance}>{formatDistance(restaurant.distance, distanceUnit)} away</Text>
         </View>
       </TouchableOpacity>
     );
@@ -310,6 +619,7 @@ export function HomeScreen({ navigation }: Props) {
   return (
     <SafeAreaView style={styles.container}>
       {renderHeader()}
+      {offline && <OfflineBanner storedAt={cachedAt} onRetry={refreshRestaurants} />}
       {renderFilters()}
       <View style={styles.cardContainer}>
         <View style={styles.cardWrapper}>
@@ -345,8 +655,8 @@ const styles = StyleSheet.create({
   filterButton: {
     padding: 8,
   },
-  headerRight: {
-    width: 40, // To balance the filter button on the left
+  undoButton: {
+    padding: 8,
   },
   favoritesButton: {
     padding: 8,
@@ -417,6 +727,9 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#666',
   },
+  openStatus: {
+    marginBottom: 4,
+  },
   address: {
     fontSize: 16,
     color: '#666',
@@ -438,6 +751,29 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginTop: 10,
   },
+  errorActions: {
+    flexDirection: 'row',
+    marginTop: 20,
+  },
+  errorButton: {
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#ff6b6b',
+    marginHorizontal: 6,
+  },
+  errorButtonPrimary: {
+    backgroundColor: '#ff6b6b',
+  },
+  errorButtonText: {
+    color: '#ff6b6b',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+  errorButtonTextPrimary: {
+    color: 'white',
+  },
   filterModal: {
     flex: 1,
     backgroundColor: 'rgba(0, 0, 0, 0.5)',
@@ -449,15 +785,57 @@ const styles = StyleSheet.create({
     borderTopRightRadius: 20,
     padding: 20,
   },
+  filterHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 20,
+  },
   filterTitle: {
     fontSize: 24,
     fontWeight: 'bold',
-    marginBottom: 20,
+  },
+  resetText: {
+    fontSize: 16,
+    color: '#ff6b6b',
   },
   filterLabel: {
     fontSize: 18,
     marginBottom: 10,
   },
+  radiusHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  radiusValue: {
+    fontSize: 16,
+    color: '#666',
+  },
+  unitButtons: {
+    flexDirection: 'row',
+    marginTop: 10,
+    marginBottom: 20,
+  },
+  unitButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    marginRight: 8,
+  },
+  unitButtonActive: {
+    backgroundColor: '#ff6b6b',
+    borderColor: '#ff6b6b',
+  },
+  unitButtonText: {
+    fontSize: 16,
+    color: '#666',
+  },
+  unitButtonTextActive: {
+    color: 'white',
+  },
   priceButtons: {
     flexDirection: 'row',
     marginBottom: 20,
@@ -504,6 +882,45 @@ const styles = StyleSheet.create({
   ratingButtonTextActive: {
     color: 'white',
   },
+  filterHint: {
+    fontSize: 14,
+    color: '#999',
+    marginBottom: 10,
+  },
+  cuisineChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 20,
+  },
+  cuisineChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  cuisineChipIncluded: {
+    backgroundColor: '#ff6b6b',
+    borderColor: '#ff6b6b',
+  },
+  cuisineChipExcluded: {
+    backgroundColor: '#666',
+    borderColor: '#666',
+  },
+  cuisineChipLocked: {
+    opacity: 0.5,
+  },
+  cuisineChipText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  cuisineChipTextActive: {
+    color: 'white',
+  },
   applyButton: {
     backgroundColor: '#ff6b6b',
     padding: 16,
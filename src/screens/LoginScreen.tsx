@@ -13,28 +13,30 @@ import {
 } from 'react-native';
 import { useAuth } from '../contexts/AuthContext';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { AuthStackParamList } from '../navigation/AppNavigator';
+import { validateEmail, validateRequired } from '../utils/validation';
+
+type LoginScreenNavigationProp = NativeStackNavigationProp<AuthStackParamList, 'Login'>;
 
 export default function LoginScreen() {
-  const [isLogin, setIsLogin] = useState(true);
+  const navigation = useNavigation<LoginScreenNavigationProp>();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
-  const [username, setUsername] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const { signIn, signUp } = useAuth();
+  const { signIn } = useAuth();
 
   const handleSubmit = async () => {
-    if (!email || !password || (!isLogin && !username)) {
-      Alert.alert('Error', 'Please fill in all fields');
+    const validationError = validateEmail(email) || validateRequired(password, 'Password');
+    if (validationError) {
+      Alert.alert('Error', validationError);
       return;
     }
 
     try {
       setIsSubmitting(true);
-      if (isLogin) {
-        await signIn(email, password);
-      } else {
-        await signUp(email, username, password);
-      }
+      await signIn(email.trim(), password);
     } catch (error) {
       Alert.alert(
         'Error',
@@ -54,9 +56,7 @@ export default function LoginScreen() {
         <ScrollView contentContainerStyle={styles.scrollContent}>
           <View style={styles.header}>
             <Text style={styles.title}>FlavorFinder</Text>
-            <Text style={styles.subtitle}>
-              {isLogin ? 'Welcome back!' : 'Create an account'}
-            </Text>
+            <Text style={styles.subtitle}>Welcome back!</Text>
           </View>
 
           <View style={styles.form}>
@@ -70,17 +70,6 @@ export default function LoginScreen() {
               autoCorrect={false}
             />
 
-            {!isLogin && (
-              <TextInput
-                style={styles.input}
-                placeholder="Username"
-                value={username}
-                onChangeText={setUsername}
-                autoCapitalize="none"
-                autoCorrect={false}
-              />
-            )}
-
             <TextInput
               style={styles.input}
               placeholder="Password"
@@ -97,25 +86,23 @@ export default function LoginScreen() {
               {isSubmitting ? (
                 <ActivityIndicator color="#fff" />
               ) : (
-                <Text style={styles.buttonText}>
-                  {isLogin ? 'Sign In' : 'Sign Up'}
-                </Text>
+                <Text style={styles.buttonText}>Sign In</Text>
               )}
             </TouchableOpacity>
 
+            <TouchableOpacity
+              style={styles.forgotButton}
+              onPress={() => navigation.navigate('ForgotPassword', { email: email.trim() })}
+            >
+              <Text style={styles.forgotButtonText}>Forgot password?</Text>
+            </TouchableOpacity>
+
             <TouchableOpacity
               style={styles.switchButton}
-              onPress={() => {
-                setIsLogin(!isLogin);
-                setEmail('');
-                setPassword('');
-                setUsername('');
-              }}
+              onPress={() => navigation.navigate('Register')}
             >
               <Text style={styles.switchButtonText}>
-                {isLogin
-                  ? "Don't have an account? Sign Up"
-                  : 'Already have an account? Sign In'}
+                Don't have an account? Sign Up
               </Text>
             </TouchableOpacity>
           </View>
@@ -174,6 +161,14 @@ const styles = StyleSheet.create({
     fontSize: 18,
     fontWeight: 'bold',
   },
+  forgotButton: {
+    alignItems: 'center',
+    marginBottom: 15,
+  },
+  forgotButtonText: {
+    color: '#666',
+    fontSize: 14,
+  },
   switchButton: {
     alignItems: 'center',
   },
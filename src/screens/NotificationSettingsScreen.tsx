@@ -0,0 +1,222 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Switch,
+  Alert,
+  Linking,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { usePreferences } from '../contexts/PreferencesContext';
+import { NotificationSettings } from '../services/preferences';
+import {
+  getNotificationPermission,
+  NotificationPermission,
+  requestNotificationPermission,
+} from '../services/notifications';
+
+const LUNCH_TIMES = ['11:30', '12:00', '12:30', '13:00'];
+const DINNER_TIMES = ['17:30', '18:00', '18:30', '19:00', '19:30'];
+
+const formatTime = (time: string) => {
+  const [hour, minute] = time.split(':').map(Number);
+  const suffix = hour < 12 ? 'AM' : 'PM';
+  return `${hour % 12 || 12}:${minute.toString().padStart(2, '0')} ${suffix}`;
+};
+
+export default function NotificationSettingsScreen() {
+  const { preferences, updatePreferences } = usePreferences();
+  const settings = preferences.notifications;
+  const [permission, setPermission] = useState<NotificationPermission>('undetermined');
+
+  useEffect(() => {
+    getNotificationPermission()
+      .then(setPermission)
+      .catch(error => console.error('Error reading notification permission:', error));
+  }, []);
+
+  // Changes apply right away; reminders are rescheduled from the saved settings
+  const update = async (changes: Partial<NotificationSettings>) => {
+    try {
+      await updatePreferences({ notifications: { ...settings, ...changes } });
+    } catch (error) {
+      console.error('Error saving notification settings:', error);
+      Alert.alert('Error', 'Failed to save notification settings');
+    }
+  };
+
+  const handleToggleEnabled = async (enabled: boolean) => {
+    if (enabled) {
+      const granted = await requestNotificationPermission();
+      setPermission(granted ? 'granted' : 'denied');
+      if (!granted) {
+        return;
+      }
+    }
+    await update({ enabled });
+  };
+
+  const renderTimeOptions = (times: string[], selected: string, key: 'lunchTime' | 'dinnerTime') => (
+    <View style={styles.timeOptions}>
+      {times.map(time => (
+        <TouchableOpacity
+          key={time}
+          style={[styles.timeChip, selected === time && styles.timeChipActive]}
+          onPress={() => update({ [key]: time })}
+        >
+          <Text style={[styles.timeChipText, selected === time && styles.timeChipTextActive]}>
+            {formatTime(time)}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  const enabled = settings.enabled && permission === 'granted';
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.switchRow}>
+          <Text style={styles.switchLabel}>Allow Notifications</Text>
+          <Switch
+            value={enabled}
+            onValueChange={handleToggleEnabled}
+            trackColor={{ true: '#ff6b6b', false: '#ddd' }}
+          />
+        </View>
+
+        {permission === 'denied' && (
+          <View style={styles.deniedBanner}>
+            <Text style={styles.deniedText}>
+              Notifications are turned off for FlavorFinder in your device settings.
+            </Text>
+            <TouchableOpacity onPress={() => Linking.openSettings()}>
+              <Text style={styles.deniedLink}>Open Settings</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <View style={[styles.section, !enabled && styles.sectionDisabled]} pointerEvents={enabled ? 'auto' : 'none'}>
+          <View style={styles.switchRow}>
+            <View style={styles.switchText}>
+              <Text style={styles.switchLabel}>Meal-time Suggestions</Text>
+              <Text style={styles.hint}>A nudge to find somewhere to eat</Text>
+            </View>
+            <Switch
+              value={settings.mealSuggestions}
+              onValueChange={(mealSuggestions) => update({ mealSuggestions })}
+              trackColor={{ true: '#ff6b6b', false: '#ddd' }}
+            />
+          </View>
+          {settings.mealSuggestions && (
+            <>
+              <Text style={styles.label}>Lunch</Text>
+              {renderTimeOptions(LUNCH_TIMES, settings.lunchTime, 'lunchTime')}
+              <Text style={styles.label}>Dinner</Text>
+              {renderTimeOptions(DINNER_TIMES, settings.dinnerTime, 'dinnerTime')}
+            </>
+          )}
+
+          <View style={styles.switchRow}>
+            <View style={styles.switchText}>
+              <Text style={styles.switchLabel}>Favorite Reopened</Text>
+              <Text style={styles.hint}>When one of your favorites opens for the day</Text>
+            </View>
+            <Switch
+              value={settings.favoriteReopened}
+              onValueChange={(favoriteReopened) => update({ favoriteReopened })}
+              trackColor={{ true: '#ff6b6b', false: '#ddd' }}
+            />
+          </View>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  content: {
+    padding: 20,
+  },
+  section: {
+    marginTop: 10,
+  },
+  sectionDisabled: {
+    opacity: 0.4,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 15,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  switchText: {
+    flex: 1,
+    marginRight: 10,
+  },
+  switchLabel: {
+    fontSize: 16,
+    color: '#333',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 2,
+  },
+  label: {
+    fontSize: 14,
+    color: '#666',
+    marginTop: 15,
+    marginBottom: 8,
+  },
+  timeOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  timeChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  timeChipActive: {
+    backgroundColor: '#ff6b6b',
+    borderColor: '#ff6b6b',
+  },
+  timeChipText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  timeChipTextActive: {
+    color: 'white',
+  },
+  deniedBanner: {
+    backgroundColor: '#fff5f5',
+    borderRadius: 10,
+    padding: 15,
+    marginTop: 15,
+  },
+  deniedText: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 8,
+  },
+  deniedLink: {
+    fontSize: 14,
+    color: '#ff6b6b',
+    fontWeight: 'bold',
+  },
+});
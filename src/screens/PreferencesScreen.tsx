@@ -0,0 +1,231 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Switch,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { ENV } from '../config/env';
+import { usePreferences } from '../contexts/PreferencesContext';
+import { DiningProfile, filtersFromProfile } from '../services/preferences';
+import { CUISINES } from '../utils/cuisines';
+import { DIETARY_OPTIONS, DietaryRestriction } from '../utils/dietary';
+import { formatRadius, kmToUnit, unitToKm } from '../utils/distance';
+import Slider from '../components/Slider';
+
+const toggle = <T,>(values: T[], value: T) =>
+  values.includes(value) ? values.filter(v => v !== value) : [...values, value];
+
+export default function PreferencesScreen() {
+  const navigation = useNavigation();
+  const { preferences, updatePreferences } = usePreferences();
+  const [profile, setProfile] = useState<DiningProfile>(preferences.profile);
+  const unit = preferences.distanceUnit;
+
+  // Home filters whose default changed are reset to the new one; the rest, like the
+  // minimum rating, are left as they are. A changed default is a changed profile,
+  // which starts the deck over with the new filters.
+  const changedDefaults = () => {
+    const defaults = filtersFromProfile(profile);
+    const { defaultRadius, defaultPrice } = preferences.profile;
+    return {
+      ...(profile.defaultRadius !== defaultRadius && { radius: defaults.radius }),
+      ...(JSON.stringify(profile.defaultPrice) !== JSON.stringify(defaultPrice) && { price: defaults.price }),
+    };
+  };
+
+  const handleSave = async () => {
+    try {
+      await updatePreferences({
+        profile,
+        filters: { ...preferences.filters, ...changedDefaults() },
+      });
+      navigation.goBack();
+    } catch (error) {
+      console.error('Error saving preferences:', error);
+      Alert.alert('Error', 'Failed to save preferences');
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.sectionTitle}>Dietary Needs</Text>
+        <Text style={styles.hint}>Only places that cater to all of these are shown.</Text>
+        {DIETARY_OPTIONS.map(option => (
+          <View key={option.id} style={styles.switchRow}>
+            <Text style={styles.switchLabel}>{option.label}</Text>
+            <Switch
+              value={profile.dietary.includes(option.id)}
+              onValueChange={() =>
+                setProfile(prev => ({
+                  ...prev,
+                  dietary: toggle<DietaryRestriction>(prev.dietary, option.id),
+                }))
+              }
+              trackColor={{ true: '#ff6b6b', false: '#ddd' }}
+            />
+          </View>
+        ))}
+
+        <Text style={styles.sectionTitle}>Disliked Cuisines</Text>
+        <Text style={styles.hint}>These never show up in your deck.</Text>
+        <View style={styles.chips}>
+          {CUISINES.map(cuisine => {
+            const disliked = profile.dislikedCuisines.includes(cuisine.id);
+            return (
+              <TouchableOpacity
+                key={cuisine.id}
+                style={[styles.chip, disliked && styles.chipActive]}
+                onPress={() =>
+                  setProfile(prev => ({
+                    ...prev,
+                    dislikedCuisines: toggle(prev.dislikedCuisines, cuisine.id),
+                  }))
+                }
+              >
+                {disliked && <Ionicons name="close" size={14} color="white" />}
+                <Text style={[styles.chipText, disliked && styles.chipTextActive]}>
+                  {cuisine.label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <Text style={styles.sectionTitle}>Default Price</Text>
+        <View style={styles.chips}>
+          {['$', '$$', '$$$', '$$$$'].map(price => {
+            const selected = profile.defaultPrice.includes(price);
+            return (
+              <TouchableOpacity
+                key={price}
+                style={[styles.chip, styles.priceChip, selected && styles.chipActive]}
+                onPress={() =>
+                  setProfile(prev => ({ ...prev, defaultPrice: toggle(prev.defaultPrice, price) }))
+                }
+              >
+                <Text style={[styles.chipText, selected && styles.chipTextActive]}>{price}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <View style={styles.radiusHeader}>
+          <Text style={styles.sectionTitle}>Default Distance</Text>
+          <Text style={styles.radiusValue}>Within {formatRadius(profile.defaultRadius, unit)}</Text>
+        </View>
+        <Slider
+          value={Math.round(kmToUnit(profile.defaultRadius / 1000, unit))}
+          minimumValue={1}
+          maximumValue={Math.floor(kmToUnit(ENV.DEFAULTS.MAX_SEARCH_RADIUS / 1000, unit))}
+          onValueChange={(value) =>
+            setProfile(prev => ({
+              ...prev,
+              defaultRadius: Math.min(
+                ENV.DEFAULTS.MAX_SEARCH_RADIUS,
+                Math.round(unitToKm(value, unit) * 1000)
+              ),
+            }))
+          }
+        />
+
+        <TouchableOpacity style={styles.saveButton} onPress={handleSave}>
+          <Text style={styles.saveButtonText}>Save Preferences</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  content: {
+    padding: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#333',
+    marginTop: 10,
+    marginBottom: 5,
+  },
+  hint: {
+    fontSize: 14,
+    color: '#999',
+    marginBottom: 10,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  switchLabel: {
+    fontSize: 16,
+    color: '#333',
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 5,
+    marginBottom: 20,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  priceChip: {
+    paddingHorizontal: 18,
+  },
+  chipActive: {
+    backgroundColor: '#ff6b6b',
+    borderColor: '#ff6b6b',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  chipTextActive: {
+    color: 'white',
+  },
+  radiusHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'baseline',
+  },
+  radiusValue: {
+    fontSize: 14,
+    color: '#666',
+  },
+  saveButton: {
+    backgroundColor: '#ff6b6b',
+    padding: 15,
+    borderRadius: 10,
+    alignItems: 'center',
+    marginTop: 30,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
@@ -9,13 +9,27 @@ import {
   Platform,
   ScrollView,
   Alert,
+  ActivityIndicator,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { Ionicons } from '@expo/vector-icons';
+import { useAuth } from '../contexts/AuthContext';
+import { AuthStackParamList } from '../navigation/AppNavigator';
+import {
+  validateEmail,
+  validateNewPassword,
+  validatePasswordConfirmation,
+  validateUsername,
+} from '../utils/validation';
+
+type RegisterScreenNavigationProp = NativeStackNavigationProp<AuthStackParamList, 'Register'>;
 
 export default function RegisterScreen() {
-  const navigation = useNavigation();
+  const navigation = useNavigation<RegisterScreenNavigationProp>();
+  const { signUp } = useAuth();
+  const [isSubmitting, setIsSubmitting] = useState(false);
   const [formData, setFormData] = useState({
     username: '',
     email: '',
@@ -32,65 +46,33 @@ export default function RegisterScreen() {
   });
 
   const validateForm = () => {
-    let isValid = true;
     const newErrors = {
-      username: '',
-      email: '',
-      password: '',
-      confirmPassword: '',
+      username: validateUsername(formData.username),
+      email: validateEmail(formData.email),
+      password: validateNewPassword(formData.password),
+      confirmPassword: validatePasswordConfirmation(formData.password, formData.confirmPassword),
     };
 
-    // Username validation
-    if (!formData.username.trim()) {
-      newErrors.username = 'Username is required';
-      isValid = false;
-    } else if (formData.username.length < 3) {
-      newErrors.username = 'Username must be at least 3 characters';
-      isValid = false;
-    }
-
-    // Email validation
-    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-    if (!formData.email.trim()) {
-      newErrors.email = 'Email is required';
-      isValid = false;
-    } else if (!emailRegex.test(formData.email)) {
-      newErrors.email = 'Invalid email format';
-      isValid = false;
-    }
-
-    // Password validation
-    if (!formData.password) {
-      newErrors.password = 'Password is required';
-      isValid = false;
-    } else if (formData.password.length < 6) {
-      newErrors.password = 'Password must be at least 6 characters';
-      isValid = false;
-    }
-
-    // Confirm password validation
-    if (formData.password !== formData.confirmPassword) {
-      newErrors.confirmPassword = 'Passwords do not match';
-      isValid = false;
-    }
-
     setErrors(newErrors);
-    return isValid;
+    return Object.values(newErrors).every(error => !error);
   };
 
+  // Signing up also signs in, so the navigator moves on to the app by itself
   const handleRegister = async () => {
-    if (validateForm()) {
-      try {
-        // TODO: Implement registration logic with your backend
-        Alert.alert('Success', 'Account created successfully!', [
-          {
-            text: 'OK',
-            onPress: () => navigation.navigate('Login' as never),
-          },
-        ]);
-      } catch (error) {
-        Alert.alert('Error', 'Failed to create account. Please try again.');
-      }
+    if (!validateForm()) {
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      await signUp(formData.email.trim(), formData.username.trim(), formData.password);
+    } catch (error) {
+      Alert.alert(
+        'Error',
+        error instanceof Error ? error.message : 'Failed to create account. Please try again.'
+      );
+    } finally {
+      setIsSubmitting(false);
     }
   };
 
@@ -188,13 +170,21 @@ export default function RegisterScreen() {
               <Text style={styles.errorText}>{errors.confirmPassword}</Text>
             ) : null}
 
-            <TouchableOpacity style={styles.registerButton} onPress={handleRegister}>
-              <Text style={styles.registerButtonText}>Create Account</Text>
+            <TouchableOpacity
+              style={[styles.registerButton, isSubmitting && styles.registerButtonDisabled]}
+              onPress={handleRegister}
+              disabled={isSubmitting}
+            >
+              {isSubmitting ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.registerButtonText}>Create Account</Text>
+              )}
             </TouchableOpacity>
 
             <TouchableOpacity
               style={styles.loginButton}
-              onPress={() => navigation.navigate('Login' as never)}
+              onPress={() => navigation.navigate('Login')}
             >
               <Text style={styles.loginButtonText}>
                 Already have an account? Log in
@@ -268,6 +258,9 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginTop: 20,
   },
+  registerButtonDisabled: {
+    opacity: 0.7,
+  },
   registerButtonText: {
     color: '#fff',
     fontSize: 16,
@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -8,14 +8,24 @@ import {
   TouchableOpacity,
   Linking,
   ActivityIndicator,
+  Share,
+  Dimensions,
 } from 'react-native';
 import { RouteProp } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import Icon from 'react-native-vector-icons/Ionicons';
-import { getPlaceDetails, getRestaurantById } from '../services/api';
-import { Restaurant } from '../hooks/useRestaurants';
+import { getRestaurantByIdCached } from '../services/api';
+import { CachedResult } from '../services/cache';
+import { isNetworkError } from '../services/apiErrors';
+import { DetailedRestaurant, RestaurantPhoto } from '../types/restaurant';
 import { RootStackParamList } from '../navigation/AppNavigator';
-import { searchRestaurants } from '../services/api';
+import { usePreferences } from '../contexts/PreferencesContext';
+import { useFavorites } from '../contexts/FavoritesContext';
+import { formatDistance } from '../utils/distance';
+import { createRestaurantLink } from '../navigation/linking';
+import PhotoViewer from '../components/PhotoViewer';
+import OpenStatusLabel from '../components/OpenStatusLabel';
+import OfflineBanner from '../components/OfflineBanner';
 
 type RestaurantDetailScreenRouteProp = RouteProp<RootStackParamList, 'RestaurantDetail'>;
 type RestaurantDetailScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'RestaurantDetail'>;
@@ -25,135 +35,252 @@ type Props = {
   navigation: RestaurantDetailScreenNavigationProp;
 };
 
-type PlaceDetails = {
-  formatted_phone_number?: string;
-  website?: string;
-  opening_hours?: {
-    open_now: boolean;
-    weekday_text: string[];
-  };
-  reviews?: Array<{
-    author_name: string;
-    rating: number;
-    relative_time_description: string;
-    text: string;
-  }>;
-};
+const SCREEN_WIDTH = Dimensions.get('window').width;
 
+// Renders straight away from the restaurant passed in by the previous screen, if any,
+// then fills in hours, reviews and photos from a single (cached) details call.
 export const RestaurantDetailScreen: React.FC<Props> = ({ route, navigation }) => {
-  const { id } = route.params;
-  const [restaurant, setRestaurant] = useState<Restaurant | null>(null);
-  const [details, setDetails] = useState<PlaceDetails | null>(null);
-  const [loading, setLoading] = useState(true);
+  const { id, restaurant: initialRestaurant } = route.params;
+  const [restaurant, setRestaurant] = useState<DetailedRestaurant | null>(initialRestaurant ?? null);
+  const [hydrated, setHydrated] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [offline, setOffline] = useState(false);
+  const [cachedAt, setCachedAt] = useState<number | undefined>();
+  const [attempt, setAttempt] = useState(0);
+  const [activePhotoIndex, setActivePhotoIndex] = useState(0);
+  const [viewerVisible, setViewerVisible] = useState(false);
+  const galleryRef = useRef<ScrollView>(null);
+  const { preferences } = usePreferences();
+  const { isFavorite, toggleFavorite } = useFavorites();
+  const favorite = restaurant ? isFavorite(restaurant.id) : false;
 
   useEffect(() => {
+    let mounted = true;
+
+    const applyResult = ({ data: details, offline, storedAt }: CachedResult<DetailedRestaurant>) => {
+      if (!mounted) {
+        return;
+      }
+      // The details call has no user location, so keep the distance we were given
+      setRestaurant(prev => ({
+        ...prev,
+        ...details,
+        distance: prev?.distance || details.distance,
+      }));
+      setOffline(offline);
+      setCachedAt(storedAt);
+    };
+
     const fetchRestaurantData = async () => {
       try {
-        const [placeDetails, restaurantData] = await Promise.all([
-          getPlaceDetails(id),
-          getRestaurantById(id)
-        ]);
-        
-        setRestaurant(restaurantData);
-        setDetails(placeDetails);
+        setError(null);
+        applyResult(await getRestaurantByIdCached(id, applyResult));
       } catch (err) {
         console.error('Error loading restaurant details:', err);
-        setError('Failed to load restaurant details');
+        if (mounted) {
+          // Whatever the previous screen passed in is still worth showing
+          setOffline(isNetworkError(err));
+          setError('Failed to load restaurant details');
+        }
       } finally {
-        setLoading(false);
+        if (mounted) {
+          setHydrated(true);
+        }
       }
     };
 
     fetchRestaurantData();
-  }, [id]);
+    return () => {
+      mounted = false;
+    };
+  }, [id, attempt]);
+
+  useEffect(() => {
+    if (!restaurant) {
+      return;
+    }
+
+    navigation.setOptions({
+      title: restaurant.name,
+      headerRight: () => (
+        <View style={styles.headerActions}>
+          <TouchableOpacity onPress={handleShare} style={styles.headerButton}>
+            <Icon name="share-outline" size={24} color="#FF6B6B" />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => toggleFavorite(restaurant).catch(err => {
+              console.error('Error updating favorites:', err);
+            })}
+            style={styles.headerButton}
+          >
+            <Icon name={favorite ? 'heart' : 'heart-outline'} size={24} color="#FF6B6B" />
+          </TouchableOpacity>
+        </View>
+      ),
+    });
+  }, [navigation, restaurant, favorite, toggleFavorite]);
+
+  const handleShare = async () => {
+    if (!restaurant) {
+      return;
+    }
+    const url = createRestaurantLink(restaurant.id);
+    try {
+      await Share.share({
+        title: restaurant.name,
+        message: `Check out ${restaurant.name} on FlavorFinder: ${url}`,
+      });
+    } catch (err) {
+      console.error('Error sharing restaurant:', err);
+    }
+  };
 
   const handleCall = () => {
-    if (details?.formatted_phone_number) {
-      Linking.openURL(`tel:${details.formatted_phone_number}`);
+    if (restaurant?.phone) {
+      Linking.openURL(`tel:${restaurant.phone.replace(/[^\d+]/g, '')}`);
     }
   };
 
   const handleWebsite = () => {
-    if (details?.website) {
-      Linking.openURL(details.website);
+    if (restaurant?.website) {
+      Linking.openURL(restaurant.website);
     }
   };
 
   const handleDirections = () => {
-    const { latitude, longitude } = restaurant?.coordinates || { latitude: 0, longitude: 0 };
+    if (!restaurant) {
+      return;
+    }
     Linking.openURL(
-      `https://www.google.com/maps/dir/?api=1&destination=${latitude},${longitude}`
+      `https://www.google.com/maps/dir/?api=1&destination=${encodeURIComponent(
+        `${restaurant.name} ${restaurant.location.address1}`
+      )}&destination_place_id=${restaurant.id}`
     );
   };
 
-  if (loading || !restaurant) {
-    return (
-      <View style={styles.loadingContainer}>
-        <ActivityIndicator size="large" color="#FF6B6B" />
-      </View>
-    );
-  }
+  // Keep the gallery on whichever photo the viewer was closed on
+  const handleViewerIndexChange = (index: number) => {
+    setActivePhotoIndex(index);
+    galleryRef.current?.scrollTo({ x: index * SCREEN_WIDTH, animated: false });
+  };
+
+  const handleReviews = () => {
+    Linking.openURL(`https://search.google.com/local/reviews?placeid=${id}`);
+  };
 
-  if (error) {
-    return (
+  if (!restaurant) {
+    return error ? (
       <View style={styles.errorContainer}>
         <Text style={styles.errorText}>{error}</Text>
       </View>
+    ) : (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#FF6B6B" />
+      </View>
     );
   }
 
+  // The search result's image until the full photo set arrives
+  const photos: RestaurantPhoto[] = restaurant.photos?.length
+    ? restaurant.photos
+    : [{ url: restaurant.image_url }];
+
   return (
     <ScrollView style={styles.container}>
-      <Image source={{ uri: restaurant.image_url }} style={styles.image} />
-      
+      {offline && <OfflineBanner storedAt={cachedAt} onRetry={() => setAttempt(count => count + 1)} />}
+      <View style={styles.photoContainer}>
+        <ScrollView
+          ref={galleryRef}
+          horizontal
+          pagingEnabled
+          showsHorizontalScrollIndicator={false}
+          onMomentumScrollEnd={(e) => {
+            setActivePhotoIndex(Math.round(e.nativeEvent.contentOffset.x / SCREEN_WIDTH));
+          }}
+        >
+          {photos.map((photo, index) => (
+            <TouchableOpacity key={index} activeOpacity={0.9} onPress={() => setViewerVisible(true)}>
+              <Image source={{ uri: photo.url }} style={styles.photo} />
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+        {photos.length > 1 && (
+          <View style={styles.photoIndicators}>
+            {photos.map((_, index) => (
+              <View
+                key={index}
+                style={[
+                  styles.photoIndicator,
+                  index === activePhotoIndex && styles.photoIndicatorActive,
+                ]}
+              />
+            ))}
+          </View>
+        )}
+      </View>
+
       <View style={styles.content}>
         <Text style={styles.name}>{restaurant.name}</Text>
-        
+
         <View style={styles.ratingContainer}>
           <Icon name="star" size={24} color="#FFD700" />
           <Text style={styles.rating}>{restaurant.rating.toFixed(1)}</Text>
-          <Text style={styles.price}>{restaurant.price}</Text>
+          {restaurant.user_ratings_total !== undefined && (
+            <Text style={styles.ratingCount}>({restaurant.user_ratings_total})</Text>
+          )}
+          {restaurant.price && <Text style={styles.price}>{restaurant.price}</Text>}
+          <OpenStatusLabel restaurant={restaurant} style={styles.openStatus} />
         </View>
 
         <View style={styles.infoSection}>
           <Text style={styles.address}>{restaurant.location.address1}</Text>
-          <Text style={styles.distance}>{restaurant.distance.toFixed(1)} miles away</Text>
+          {restaurant.distance > 0 && (
+            <Text style={styles.distance}>
+              {formatDistance(restaurant.distance, preferences.distanceUnit)} away
+            </Text>
+          )}
         </View>
 
         <View style={styles.actionButtons}>
-          <TouchableOpacity style={styles.button} onPress={handleCall}>
-            <Icon name="call" size={24} color="#FF6B6B" />
-            <Text style={styles.buttonText}>Call</Text>
-          </TouchableOpacity>
-          
-          <TouchableOpacity style={styles.button} onPress={handleWebsite}>
-            <Icon name="globe" size={24} color="#FF6B6B" />
-            <Text style={styles.buttonText}>Website</Text>
-          </TouchableOpacity>
-          
+          {restaurant.phone && (
+            <TouchableOpacity style={styles.button} onPress={handleCall}>
+              <Icon name="call" size={24} color="#FF6B6B" />
+              <Text style={styles.buttonText}>Call</Text>
+            </TouchableOpacity>
+          )}
+
+          {restaurant.website && (
+            <TouchableOpacity style={styles.button} onPress={handleWebsite}>
+              <Icon name="globe" size={24} color="#FF6B6B" />
+              <Text style={styles.buttonText}>Website</Text>
+            </TouchableOpacity>
+          )}
+
           <TouchableOpacity style={styles.button} onPress={handleDirections}>
             <Icon name="navigate" size={24} color="#FF6B6B" />
             <Text style={styles.buttonText}>Directions</Text>
           </TouchableOpacity>
         </View>
 
-        {details?.opening_hours && (
+        {!hydrated && (
+          <ActivityIndicator style={styles.hydrating} color="#FF6B6B" />
+        )}
+
+        {error && !offline && <Text style={styles.inlineError}>{error}</Text>}
+
+        {restaurant.opening_hours?.weekday_text && (
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Hours</Text>
-            <Text style={styles.hoursStatus}>
-              {details.opening_hours.open_now ? 'Open Now' : 'Closed'}
-            </Text>
-            {details.opening_hours.weekday_text?.map((day, index) => (
+            {restaurant.opening_hours.weekday_text.map((day, index) => (
               <Text key={index} style={styles.hoursText}>{day}</Text>
             ))}
           </View>
         )}
 
-        {details?.reviews && details.reviews.length > 0 && (
+        {restaurant.reviews && restaurant.reviews.length > 0 && (
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Reviews</Text>
-            {details.reviews.map((review, index) => (
+            {restaurant.reviews.map((review, index) => (
               <View key={index} style={styles.reviewContainer}>
                 <View style={styles.reviewHeader}>
                   <Text style={styles.reviewAuthor}>{review.author_name}</Text>
@@ -166,9 +293,20 @@ export const RestaurantDetailScreen: React.FC<Props> = ({ route, navigation }) =
                 <Text style={styles.reviewText}>{review.text}</Text>
               </View>
             ))}
+            <TouchableOpacity style={styles.moreReviewsButton} onPress={handleReviews}>
+              <Text style={styles.moreReviewsText}>See all reviews</Text>
+            </TouchableOpacity>
           </View>
         )}
       </View>
+
+      <PhotoViewer
+        photos={photos}
+        visible={viewerVisible}
+        initialIndex={activePhotoIndex}
+        onClose={() => setViewerVisible(false)}
+        onIndexChange={handleViewerIndexChange}
+      />
     </ScrollView>
   );
 };
@@ -178,6 +316,14 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: '#fff',
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  headerButton: {
+    padding: 4,
+    marginLeft: 12,
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -194,11 +340,31 @@ const styles = StyleSheet.create({
     fontSize: 16,
     textAlign: 'center',
   },
-  image: {
-    width: '100%',
+  photoContainer: {
+    height: 300,
+    width: SCREEN_WIDTH,
+  },
+  photo: {
+    width: SCREEN_WIDTH,
     height: 300,
     resizeMode: 'cover',
   },
+  photoIndicators: {
+    flexDirection: 'row',
+    position: 'absolute',
+    bottom: 16,
+    alignSelf: 'center',
+  },
+  photoIndicator: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: 'rgba(255, 255, 255, 0.5)',
+    marginHorizontal: 4,
+  },
+  photoIndicatorActive: {
+    backgroundColor: '#fff',
+  },
   content: {
     padding: 20,
   },
@@ -217,11 +383,19 @@ const styles = StyleSheet.create({
     fontSize: 18,
     color: '#666',
     marginLeft: 8,
-    marginRight: 15,
+  },
+  ratingCount: {
+    fontSize: 14,
+    color: '#999',
+    marginLeft: 4,
   },
   price: {
     fontSize: 18,
     color: '#666',
+    marginLeft: 15,
+  },
+  openStatus: {
+    marginLeft: 15,
   },
   infoSection: {
     marginBottom: 20,
@@ -252,6 +426,14 @@ const styles = StyleSheet.create({
     marginTop: 5,
     fontSize: 14,
   },
+  hydrating: {
+    marginBottom: 20,
+  },
+  inlineError: {
+    color: '#FF6B6B',
+    fontSize: 14,
+    marginBottom: 20,
+  },
   section: {
     marginBottom: 25,
   },
@@ -261,11 +443,6 @@ const styles = StyleSheet.create({
     color: '#333',
     marginBottom: 10,
   },
-  hoursStatus: {
-    fontSize: 16,
-    color: '#4CAF50',
-    marginBottom: 10,
-  },
   hoursText: {
     fontSize: 14,
     color: '#666',
@@ -306,4 +483,16 @@ const styles = StyleSheet.create({
     color: '#666',
     lineHeight: 20,
   },
-}); 
\ No newline at end of file
+  moreReviewsButton: {
+    padding: 12,
+    backgroundColor: '#FF6B6B',
+    borderRadius: 8,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  moreReviewsText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+});
\ No newline at end of file
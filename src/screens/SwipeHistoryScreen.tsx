@@ -0,0 +1,212 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  Image,
+  TouchableOpacity,
+  Alert,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useSwipeHistory } from '../hooks/useSwipeHistory';
+import { usePreferences } from '../contexts/PreferencesContext';
+import { isPassHidden, SwipeRecord } from '../services/swipeHistoryRepository';
+import { RootStackParamList } from '../navigation/AppNavigator';
+
+type SwipeHistoryNavigationProp = NativeStackNavigationProp<RootStackParamList, 'SwipeHistory'>;
+
+const HIDE_OPTIONS = [1, 7, 30, 90, 365];
+
+export default function SwipeHistoryScreen() {
+  const navigation = useNavigation<SwipeHistoryNavigationProp>();
+  const { history, removeSwipe } = useSwipeHistory();
+  const { preferences, updatePreferences } = usePreferences();
+  const passed = history.filter(record => record.decision === 'passed');
+
+  const handleUnpass = async (record: SwipeRecord) => {
+    try {
+      await removeSwipe(record.restaurant.id);
+    } catch (err) {
+      console.error('Error removing pass:', err);
+      Alert.alert('Error', 'Failed to update swipe history');
+    }
+  };
+
+  const handleHideDaysChange = async (hidePassedDays: number) => {
+    try {
+      await updatePreferences({ hidePassedDays });
+    } catch (err) {
+      console.error('Error saving preferences:', err);
+    }
+  };
+
+  const renderItem = ({ item }: { item: SwipeRecord }) => {
+    const hidden = isPassHidden(item, preferences.hidePassedDays);
+    return (
+      <TouchableOpacity
+        style={styles.item}
+        onPress={() => navigation.navigate('RestaurantDetail', { id: item.restaurant.id, restaurant: item.restaurant })}
+      >
+        <Image source={{ uri: item.restaurant.image_url }} style={styles.image} />
+        <View style={styles.itemContent}>
+          <Text style={styles.name} numberOfLines={1}>{item.restaurant.name}</Text>
+          <Text style={styles.meta}>
+            Passed {new Date(item.timestamp).toLocaleDateString()}
+            {hidden ? '' : ' · showing again'}
+          </Text>
+        </View>
+        <TouchableOpacity style={styles.unpassButton} onPress={() => handleUnpass(item)}>
+          <Ionicons name="arrow-undo" size={18} color="#ff6b6b" />
+          <Text style={styles.unpassText}>Un-pass</Text>
+        </TouchableOpacity>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.settings}>
+        <Text style={styles.settingsLabel}>Hide passed restaurants for</Text>
+        <View style={styles.options}>
+          {HIDE_OPTIONS.map(days => (
+            <TouchableOpacity
+              key={days}
+              style={[
+                styles.option,
+                preferences.hidePassedDays === days && styles.optionActive,
+              ]}
+              onPress={() => handleHideDaysChange(days)}
+            >
+              <Text style={[
+                styles.optionText,
+                preferences.hidePassedDays === days && styles.optionTextActive,
+              ]}>
+                {days === 1 ? '1 day' : `${days} days`}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      {passed.length > 0 ? (
+        <FlatList
+          data={passed}
+          renderItem={renderItem}
+          keyExtractor={(item) => item.restaurant.id}
+          contentContainerStyle={styles.list}
+        />
+      ) : (
+        <View style={styles.emptyContainer}>
+          <Ionicons name="close-circle-outline" size={64} color="#ff6b6b" />
+          <Text style={styles.emptyText}>No passed restaurants</Text>
+          <Text style={styles.emptySubText}>
+            Restaurants you swipe left on will show up here.
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  settings: {
+    padding: 15,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#eee',
+  },
+  settingsLabel: {
+    fontSize: 16,
+    color: '#333',
+    marginBottom: 10,
+  },
+  options: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  option: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  optionActive: {
+    backgroundColor: '#ff6b6b',
+    borderColor: '#ff6b6b',
+  },
+  optionText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  optionTextActive: {
+    color: 'white',
+  },
+  list: {
+    padding: 15,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 10,
+    padding: 10,
+    marginBottom: 10,
+  },
+  image: {
+    width: 56,
+    height: 56,
+    borderRadius: 8,
+  },
+  itemContent: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  name: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#333',
+  },
+  meta: {
+    fontSize: 13,
+    color: '#999',
+    marginTop: 4,
+  },
+  unpassButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 8,
+  },
+  unpassText: {
+    marginLeft: 4,
+    color: '#ff6b6b',
+    fontSize: 14,
+  },
+  emptyContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 20,
+  },
+  emptyText: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#666',
+    marginTop: 20,
+    marginBottom: 10,
+  },
+  emptySubText: {
+    fontSize: 16,
+    color: '#999',
+    textAlign: 'center',
+  },
+});
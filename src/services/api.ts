@@ -1,154 +1,123 @@
-import { ENV } from '../config/env';
+import { getRestaurantProvider, SearchRestaurantsParams, SearchRestaurantsResult } from './providers';
+import { CachedResult, createPersistentCache, staleWhileRevalidate } from './cache';
+import { DetailedRestaurant, PlaceHours } from '../types/restaurant';
+import { ApiError } from './apiErrors';
+import { withRetry } from '../utils/retry';
+import { calculateDistance } from '../utils/distance';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Results near a spot change slowly; details even more so
+const searchCache = createPersistentCache<SearchRestaurantsResult>({
+  namespace: 'search',
+  ttlMs: HOUR_MS,
+  maxAgeMs: 7 * DAY_MS,
+  maxEntries: 30,
+  maxBytes: 1024 * 1024,
+});
+
+const detailsCache = createPersistentCache<DetailedRestaurant>({
+  namespace: 'details',
+  ttlMs: DAY_MS,
+  maxAgeMs: 30 * DAY_MS,
+  maxEntries: 200,
+  maxBytes: 2 * 1024 * 1024,
+});
+
+// Read for every favorite on each launch, so kept longer than full details
+const hoursCache = createPersistentCache<PlaceHours>({
+  namespace: 'hours',
+  ttlMs: 7 * DAY_MS,
+  maxAgeMs: 60 * DAY_MS,
+  maxEntries: 500,
+  maxBytes: 512 * 1024,
+});
+
+// Searches from within about a kilometer of each other with the same filters share
+// an entry. Keys include the provider so fixtures and live data never mix.
+const searchCacheKey = ({ latitude, longitude, radius, keyword }: SearchRestaurantsParams) =>
+  [getRestaurantProvider().name, latitude.toFixed(2), longitude.toFixed(2), radius, keyword ?? ''].join('|');
+
+const detailsCacheKey = (placeId: string) => `${getRestaurantProvider().name}|${placeId}`;
+
+// Quota, server and network errors are retried with backoff; see apiErrors for which are retryable
+const withApiRetry = <T>(task: () => Promise<T>) =>
+  withRetry(task, { shouldRetry: error => error instanceof ApiError && error.retryable });
 
 // Get details for a single restaurant
 export const getPlaceDetails = async (placeId: string) => {
-  try {
-    const response = await fetch(
-      `${ENV.API.BASE_URL}/details/json?place_id=${placeId}&key=${ENV.API.KEY}&fields=formatted_phone_number,website,opening_hours,reviews,user_ratings_total`
-    );
-    const data = await response.json();
-
-    if (data.status !== 'OK') {
-      throw new Error(data.error_message || 'Failed to fetch place details');
-    }
-
-    return data.result;
-  } catch (error) {
-    console.error('Error fetching place details:', error);
-    throw error;
-  }
+  return withApiRetry(() => getRestaurantProvider().getPlaceDetails(placeId));
 };
 
-// Restaurant search function using Google Places API
-export const searchRestaurants = async (params: {
-  latitude: number;
-  longitude: number;
-  radius: number;
-  pageSize: number;
-  pageToken?: string;
-}) => {
-  try {
-    const { latitude, longitude, radius, pageSize, pageToken } = params;
-    const location = `${latitude},${longitude}`;
-    const type = 'restaurant';
-    
-    const url = `${ENV.API.BASE_URL}/nearbysearch/json?location=${location}&radius=${radius}&type=${type}&key=${ENV.API.KEY}${pageToken ? `&pagetoken=${pageToken}` : ''}`;
-    
-    console.log('Searching restaurants with URL:', url);
-    
-    const response = await fetch(url);
-    const data = await response.json();
-
-    if (data.status !== 'OK' && data.status !== 'ZERO_RESULTS') {
-      throw new Error(data.error_message || 'Failed to fetch restaurants');
-    }
-
-    return {
-      results: data.results || [],
-      nextPageToken: data.next_page_token,
-    };
-  } catch (error) {
-    console.error('Error searching restaurants:', error);
-    throw error;
-  }
+// Restaurant search against the active data provider
+export const searchRestaurants = async (params: SearchRestaurantsParams) => {
+  return withApiRetry(() => getRestaurantProvider().searchRestaurants(params));
 };
 
-// Helper function to calculate distance between two points in miles
-function calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const R = 3959; // Radius of the earth in miles (instead of 6371 km)
-  const dLat = deg2rad(lat2 - lat1);
-  const dLon = deg2rad(lon2 - lon1);
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(deg2rad(lat1)) * Math.cos(deg2rad(lat2)) * Math.sin(dLon / 2) * Math.sin(dLon / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
-}
-
-function deg2rad(deg: number): number {
-  return deg * (Math.PI / 180);
-}
+// Opening hours only, for open/closed labels and reminders
+export const getOpeningHours = async (placeId: string) => {
+  return withApiRetry(() => getRestaurantProvider().getOpeningHours(placeId));
+};
 
 // Get a single restaurant by ID
 export const getRestaurantById = async (placeId: string) => {
-  try {
-    const response = await fetch(
-      `${ENV.API.BASE_URL}/details/json?place_id=${placeId}&key=${ENV.API.KEY}&fields=name,formatted_phone_number,formatted_address,opening_hours,photos,reviews,price_level,rating,website,geometry,types`
-    );
-    const data = await response.json();
-
-    if (data.status !== 'OK') {
-      throw new Error(data.error_message || 'Failed to fetch restaurant details');
-    }
-
-    const place = data.result;
-    return {
-      id: placeId,
-      name: place.name,
-      image_url: place.photos?.[0]
-        ? `${ENV.API.BASE_URL}/photo?maxwidth=400&photoreference=${place.photos[0].photo_reference}&key=${ENV.API.KEY}`
-        : 'https://via.placeholder.com/400x300?text=No+Image',
-      rating: place.rating || 0,
-      price: place.price_level ? '$'.repeat(place.price_level) : undefined,
-      categories: place.types?.map((type: string) => ({
-        alias: type,
-        title: type.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ')
-      })) || [],
-      location: {
-        address1: place.formatted_address,
-        city: '',
-        state: '',
-        zip_code: '',
-      },
-      coordinates: {
-        latitude: place.geometry.location.lat,
-        longitude: place.geometry.location.lng,
-      },
-      distance: 0, // We don't have user location here
-      phone: place.formatted_phone_number,
-      website: place.website,
-      opening_hours: place.opening_hours,
-      reviews: place.reviews,
-    };
-  } catch (error) {
-    console.error('Error fetching restaurant by ID:', error);
-    throw error;
+  return withApiRetry(() => getRestaurantProvider().getRestaurantById(placeId));
+};
+
+// Places details usage for the quota dashboard; undefined for providers that aren't billed
+export const getBillingStats = () => getRestaurantProvider().getBillingStats?.();
+
+// A cached first page's next-page token has long expired, and its distances were
+// measured from wherever the search that filled the entry was made
+const fromCache = (
+  result: CachedResult<SearchRestaurantsResult>,
+  { latitude, longitude }: SearchRestaurantsParams
+): CachedResult<SearchRestaurantsResult> => {
+  if (!result.storedAt) {
+    return result;
   }
+  const results = result.data.results.map(restaurant => ({
+    ...restaurant,
+    distance: calculateDistance(
+      latitude,
+      longitude,
+      restaurant.coordinates.latitude,
+      restaurant.coordinates.longitude
+    ),
+  }));
+  return { ...result, data: { results } };
 };
 
-// Get restaurant details
-export const getRestaurantDetails = async (placeId: string) => {
-  try {
-    const response = await fetch(
-      `${ENV.API.BASE_URL}/details/json?place_id=${placeId}&key=${ENV.API.KEY}&fields=name,formatted_phone_number,formatted_address,opening_hours,photos,reviews,price_level,rating,website`
-    );
-
-    if (response.status !== 200) {
-      throw new Error('Failed to fetch restaurant details');
-    }
-
-    const data = await response.json();
-    if (data.status !== 'OK') {
-      throw new Error(data.error_message || 'Failed to fetch restaurant details');
-    }
-
-    const place = data.result;
-    return {
-      id: place.place_id,
-      name: place.name,
-      phone: place.formatted_phone_number,
-      address: place.formatted_address,
-      opening_hours: place.opening_hours,
-      photos: place.photos?.map((photo: any) => ({
-        url: `${ENV.API.BASE_URL}/photo?maxwidth=800&photoreference=${photo.photo_reference}&key=${ENV.API.KEY}`,
-      })),
-      reviews: place.reviews,
-      price_level: place.price_level,
-      rating: place.rating,
-      website: place.website,
-    };
-  } catch (error) {
-    console.error('Error getting restaurant details:', error);
-    throw error;
+// First pages come from the cache when we have them, see staleWhileRevalidate
+export const searchRestaurantsCached = async (
+  params: SearchRestaurantsParams,
+  onUpdate?: (result: CachedResult<SearchRestaurantsResult>) => void
+): Promise<CachedResult<SearchRestaurantsResult>> => {
+  if (params.pageToken) {
+    return { data: await searchRestaurants(params), stale: false, offline: false };
   }
-}; 
\ No newline at end of file
+  const result = await staleWhileRevalidate(
+    searchCache,
+    searchCacheKey(params),
+    () => searchRestaurants(params),
+    onUpdate && (update => onUpdate(fromCache(update, params)))
+  );
+  return fromCache(result, params);
+};
+
+// Fetch a first page from the network and update its cache entry. Used to get a
+// next-page token when the deck started from a cached page, which has none.
+export const refreshSearchRestaurants = async (params: SearchRestaurantsParams) => {
+  const result = await searchRestaurants(params);
+  await searchCache.set(searchCacheKey(params), result);
+  return result;
+};
+
+export const getRestaurantByIdCached = (
+  placeId: string,
+  onUpdate?: (result: CachedResult<DetailedRestaurant>) => void
+) => staleWhileRevalidate(detailsCache, detailsCacheKey(placeId), () => getRestaurantById(placeId), onUpdate);
+
+export const getOpeningHoursCached = (placeId: string) =>
+  staleWhileRevalidate(hoursCache, detailsCacheKey(placeId), () => getOpeningHours(placeId));
@@ -0,0 +1,145 @@
+import { PlacesStatus } from '../types/googlePlaces';
+
+// What went wrong, in the terms the UI cares about
+export type ApiErrorKind =
+  | 'network'
+  | 'quota'
+  | 'denied'
+  | 'invalid_request'
+  | 'not_found'
+  | 'server'
+  | 'location_permission'
+  | 'location_unavailable'
+  | 'unknown';
+
+interface ApiErrorOptions {
+  retryable?: boolean;
+  // The Places status the error was mapped from, if any
+  status?: PlacesStatus;
+  cause?: unknown;
+}
+
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  // Whether trying the same request again could succeed
+  readonly retryable: boolean;
+  readonly status?: PlacesStatus;
+  readonly cause?: unknown;
+
+  constructor(message: string, kind: ApiErrorKind = 'unknown', options: ApiErrorOptions = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = kind;
+    this.retryable = options.retryable ?? false;
+    this.status = options.status;
+    this.cause = options.cause;
+  }
+}
+
+// The request never reached a server
+export class NetworkError extends ApiError {
+  constructor(cause?: unknown) {
+    super('No internet connection', 'network', { retryable: true, cause });
+    this.name = 'NetworkError';
+  }
+}
+
+// OVER_QUERY_LIMIT: rate limited, or the daily quota is spent
+export class QuotaExceededError extends ApiError {
+  constructor(message = 'Too many requests') {
+    super(message, 'quota', { retryable: true, status: 'OVER_QUERY_LIMIT' });
+    this.name = 'QuotaExceededError';
+  }
+}
+
+// REQUEST_DENIED: a bad or restricted API key; retrying won't help
+export class RequestDeniedError extends ApiError {
+  constructor(message = 'Request denied') {
+    super(message, 'denied', { status: 'REQUEST_DENIED' });
+    this.name = 'RequestDeniedError';
+  }
+}
+
+// INVALID_REQUEST: usually a bug, or a page token used before it's valid. Not retried
+// in general; services/pagination retries it for page tokens.
+export class InvalidRequestError extends ApiError {
+  constructor(message = 'Invalid request') {
+    super(message, 'invalid_request', { status: 'INVALID_REQUEST' });
+    this.name = 'InvalidRequestError';
+  }
+}
+
+export class NotFoundError extends ApiError {
+  constructor(message = 'Place not found') {
+    super(message, 'not_found', { status: 'NOT_FOUND' });
+    this.name = 'NotFoundError';
+  }
+}
+
+// UNKNOWN_ERROR or a 5xx; Google suggests trying again
+export class ServerError extends ApiError {
+  constructor(message = 'Server error') {
+    super(message, 'server', { retryable: true, status: 'UNKNOWN_ERROR' });
+    this.name = 'ServerError';
+  }
+}
+
+export class LocationPermissionError extends ApiError {
+  constructor() {
+    super('Permission to access location was denied', 'location_permission');
+    this.name = 'LocationPermissionError';
+  }
+}
+
+export class LocationUnavailableError extends ApiError {
+  constructor(cause?: unknown) {
+    super('Error getting location. Please make sure location services are enabled.', 'location_unavailable', {
+      retryable: true,
+      cause,
+    });
+    this.name = 'LocationUnavailableError';
+  }
+}
+
+// Map a Places response status that isn't OK (or ZERO_RESULTS) to its error
+export const fromPlacesStatus = (status: PlacesStatus, message?: string): ApiError => {
+  switch (status) {
+    case 'OVER_QUERY_LIMIT':
+      return new QuotaExceededError(message);
+    case 'REQUEST_DENIED':
+      return new RequestDeniedError(message);
+    case 'INVALID_REQUEST':
+      return new InvalidRequestError(message);
+    case 'NOT_FOUND':
+      return new NotFoundError(message);
+    case 'UNKNOWN_ERROR':
+      return new ServerError(message);
+    default:
+      return new ApiError(message || `Unexpected status ${status}`, 'unknown', { status });
+  }
+};
+
+// Map a non-2xx HTTP response, for when the body isn't a Places response
+export const fromHttpStatus = (httpStatus: number): ApiError => {
+  if (httpStatus === 429) {
+    return new QuotaExceededError();
+  }
+  if (httpStatus === 401 || httpStatus === 403) {
+    return new RequestDeniedError();
+  }
+  if (httpStatus >= 500) {
+    return new ServerError(`Server error (${httpStatus})`);
+  }
+  return new ApiError(`Request failed (${httpStatus})`);
+};
+
+export const isNetworkError = (error: unknown) => error instanceof NetworkError;
+
+// Anything that isn't already an ApiError is a bug rather than a failed request, so
+// it's never retried. Network failures are mapped where fetch is called.
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) {
+    return error;
+  }
+  return new ApiError(error instanceof Error ? error.message : String(error), 'unknown', { cause: error });
+};
@@ -0,0 +1,254 @@
+import { clearSession, loadSession, saveSession, saveSessionToken } from './session';
+import { AuthBackend, User } from './types';
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+interface HttpAuthBackendOptions {
+  baseUrl: string;
+  // Swappable for tests, see mockAuthServer
+  fetchImpl?: typeof fetch;
+}
+
+export interface HttpAuthBackend extends AuthBackend {
+  // fetch against the auth API with the access token attached, refreshing it once on a 401
+  authorizedFetch: (path: string, init?: RequestInit) => Promise<Response>;
+}
+
+export class SessionExpiredError extends Error {
+  constructor() {
+    super('Your session has expired. Please sign in again.');
+    this.name = 'SessionExpiredError';
+  }
+}
+
+const readError = async (response: Response, fallback: string) => {
+  try {
+    const body = await response.json();
+    return body.message || body.error || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+// Accounts on a remote API using short-lived access tokens (JWT) and refresh tokens.
+// Both tokens are kept as JSON under ENV.STORAGE_KEYS.USER_TOKEN.
+export const createHttpAuthBackend = ({
+  baseUrl,
+  fetchImpl = fetch,
+}: HttpAuthBackendOptions): HttpAuthBackend => {
+  let tokens: AuthTokens | null = null;
+  let refreshing: Promise<AuthTokens> | null = null;
+  const expiredListeners = new Set<() => void>();
+
+  const request = (path: string, init: RequestInit = {}) =>
+    fetchImpl(`${baseUrl}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+        ...init.headers,
+      },
+    });
+
+  const loadTokens = async () => {
+    if (!tokens) {
+      const { token } = await loadSession();
+      tokens = token ? JSON.parse(token) : null;
+    }
+    return tokens;
+  };
+
+  const storeTokens = async (next: AuthTokens) => {
+    tokens = next;
+    await saveSessionToken(JSON.stringify(next));
+  };
+
+  const expireSession = async () => {
+    tokens = null;
+    await clearSession();
+    expiredListeners.forEach(listener => listener());
+  };
+
+  // Concurrent 401s share a single refresh call
+  const refreshTokens = () => {
+    if (!refreshing) {
+      refreshing = (async () => {
+        const current = await loadTokens();
+        if (!current) {
+          throw new SessionExpiredError();
+        }
+
+        const response = await request('/auth/refresh', {
+          method: 'POST',
+          body: JSON.stringify({ refreshToken: current.refreshToken }),
+        });
+        if (response.status === 401) {
+          await expireSession();
+          throw new SessionExpiredError();
+        }
+        if (!response.ok) {
+          throw new Error(await readError(response, 'Failed to refresh session'));
+        }
+
+        const next: AuthTokens = await response.json();
+        await storeTokens(next);
+        return next;
+      })().finally(() => {
+        refreshing = null;
+      });
+    }
+    return refreshing;
+  };
+
+  const authorizedFetch = async (path: string, init: RequestInit = {}) => {
+    const current = await loadTokens();
+    if (!current) {
+      throw new SessionExpiredError();
+    }
+
+    const send = (accessToken: string) =>
+      request(path, {
+        ...init,
+        headers: { ...init.headers, Authorization: `Bearer ${accessToken}` },
+      });
+
+    const response = await send(current.accessToken);
+    if (response.status !== 401) {
+      return response;
+    }
+
+    const refreshed = await refreshTokens();
+    return send(refreshed.accessToken);
+  };
+
+  // Unauthenticated POST that only needs to succeed
+  const post = async (path: string, body: object, fallbackError: string) => {
+    const response = await request(path, {
+      method: 'POST',
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw new Error(await readError(response, fallbackError));
+    }
+    return response;
+  };
+
+  const authenticate = async (path: string, body: object, fallbackError: string) => {
+    const response = await request(path, {
+      method: 'POST',
+      body: JSON.stringify(body),
+    });
+    if (!response.ok) {
+      throw new Error(await readError(response, fallbackError));
+    }
+
+    const { user, accessToken, refreshToken }: AuthTokens & { user: User } = await response.json();
+    tokens = { accessToken, refreshToken };
+    await saveSession(JSON.stringify(tokens), user);
+    return user;
+  };
+
+  return {
+    name: 'http',
+    authorizedFetch,
+
+    restoreSession: async () => {
+      const { user } = await loadSession();
+      if (!user || !(await loadTokens())) {
+        return null;
+      }
+
+      try {
+        const response = await authorizedFetch('/auth/me');
+        if (!response.ok) {
+          throw new Error(await readError(response, 'Failed to load profile'));
+        }
+        const { user: fresh }: { user: User } = await response.json();
+        await saveSession(JSON.stringify(tokens), fresh);
+        return fresh;
+      } catch (error) {
+        if (error instanceof SessionExpiredError) {
+          return null;
+        }
+        // Offline or server trouble: keep the cached profile until the next launch
+        console.error('Error restoring session:', error);
+        return user;
+      }
+    },
+
+    signIn: (email, password) =>
+      authenticate('/auth/login', { email, password }, 'Invalid email or password'),
+
+    signUp: (email, username, password) =>
+      authenticate('/auth/register', { email, username, password }, 'Failed to create account'),
+
+    signOut: async () => {
+      const current = await loadTokens();
+      tokens = null;
+      await clearSession();
+      if (current) {
+        // Best effort: the local session is gone either way
+        request('/auth/logout', {
+          method: 'POST',
+          body: JSON.stringify({ refreshToken: current.refreshToken }),
+        }).catch(error => console.error('Error revoking refresh token:', error));
+      }
+    },
+
+    updateProfile: async (changes) => {
+      const response = await authorizedFetch('/auth/me', {
+        method: 'PATCH',
+        body: JSON.stringify(changes),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to update profile'));
+      }
+
+      const { user }: { user: User } = await response.json();
+      await saveSession(JSON.stringify(tokens), user);
+      return user;
+    },
+
+    changePassword: async (currentPassword, newPassword) => {
+      const response = await authorizedFetch('/auth/change-password', {
+        method: 'POST',
+        body: JSON.stringify({ currentPassword, newPassword }),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Failed to change password'));
+      }
+    },
+
+    requestPasswordReset: async (email) => {
+      await post('/auth/password-reset/request', { email }, 'Failed to send reset code');
+    },
+
+    verifyResetCode: async (email, code) => {
+      const response = await post(
+        '/auth/password-reset/verify',
+        { email, code },
+        'Invalid or expired code'
+      );
+      const { resetToken }: { resetToken: string } = await response.json();
+      return resetToken;
+    },
+
+    resetPassword: async (resetToken, newPassword) => {
+      await post(
+        '/auth/password-reset/confirm',
+        { resetToken, password: newPassword },
+        'Failed to reset password'
+      );
+    },
+
+    onSessionExpired: (listener) => {
+      expiredListeners.add(listener);
+      return () => {
+        expiredListeners.delete(listener);
+      };
+    },
+  };
+};
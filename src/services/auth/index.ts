@@ -0,0 +1,49 @@
+import { ENV } from '../../config/env';
+import { createHttpAuthBackend } from './httpAuthBackend';
+import { createLocalAuthBackend } from './localAuthBackend';
+import { createMockAuthServer } from './mockAuthServer';
+import { createConsoleResetTransport, createEmailResetTransport } from './resetDelivery';
+import { AuthBackend } from './types';
+
+export * from './types';
+
+// Reset codes for on-device accounts are emailed when an endpoint is configured.
+// Logging them instead is only for development: a release build without an endpoint
+// fails reset requests rather than telling the user a code is on its way.
+const createResetTransport = () => {
+  if (ENV.AUTH.RESET_EMAIL_URL) {
+    return createEmailResetTransport({ endpoint: ENV.AUTH.RESET_EMAIL_URL });
+  }
+  if (__DEV__) {
+    return createConsoleResetTransport();
+  }
+  console.warn('No reset email endpoint configured; password reset is disabled');
+  return null;
+};
+
+const createBackend = (name: string): AuthBackend => {
+  switch (name) {
+    case 'http':
+      return createHttpAuthBackend({ baseUrl: ENV.AUTH.BASE_URL });
+    case 'mock':
+      // The HTTP backend against an in-memory server, for development without a server
+      return createHttpAuthBackend({
+        baseUrl: 'http://mock.flavorfinder.local',
+        fetchImpl: createMockAuthServer().fetch,
+      });
+    case 'local':
+      return createLocalAuthBackend({ resetTransport: createResetTransport() });
+    default:
+      console.warn(`Unknown auth backend "${name}", falling back to local accounts`);
+      return createLocalAuthBackend({ resetTransport: createResetTransport() });
+  }
+};
+
+// Selected once at startup from ENV.AUTH.BACKEND
+let activeBackend: AuthBackend = createBackend(ENV.AUTH.BACKEND);
+
+export const getAuthBackend = () => activeBackend;
+
+export const setAuthBackend = (backend: AuthBackend) => {
+  activeBackend = backend;
+};
@@ -0,0 +1,166 @@
+import {
+  consumeResetToken,
+  issueResetCode,
+  redeemResetCode,
+  RESET_UNAVAILABLE_MESSAGE,
+} from './passwordReset';
+import { generateSessionToken, needsRehash, verifyPassword } from './passwordHashing';
+import { createConsoleResetTransport, ResetCodeTransport } from './resetDelivery';
+import { clearSession, loadSession, saveSession } from './session';
+import { AuthBackend, ProfileUpdate, User } from './types';
+import {
+  createUserRecord,
+  getUserRecords,
+  isLegacyRecord,
+  saveUserRecords,
+  StoredUserRecord,
+  upgradeUserRecord,
+} from './userRecords';
+
+const checkPassword = async (record: StoredUserRecord, password: string) => {
+  if (isLegacyRecord(record)) {
+    return record.password === password;
+  }
+  return verifyPassword(password, record.password);
+};
+
+const toUser = (record: StoredUserRecord): User => ({
+  id: record.id,
+  email: record.email,
+  username: record.username,
+});
+
+const applyProfileUpdate = <T extends StoredUserRecord>(record: T, changes: ProfileUpdate): T => ({
+  ...record,
+  username: changes.username ?? record.username,
+  email: changes.email ?? record.email,
+});
+
+// The stored record of the signed-in account, with the full list it came from
+const loadCurrentRecord = async () => {
+  const { token, user } = await loadSession();
+  if (!token || !user) {
+    throw new Error('You need to be signed in');
+  }
+  const users = await getUserRecords();
+  const record = users.find(u => u.id === user.id);
+  if (!record) {
+    throw new Error('Account not found');
+  }
+  return { token, users, record };
+};
+
+interface LocalAuthBackendOptions {
+  // Delivers password reset codes; null when there's no way to, which fails every request
+  resetTransport?: ResetCodeTransport | null;
+}
+
+// Accounts stored on the device
+export const createLocalAuthBackend = ({
+  resetTransport = createConsoleResetTransport(),
+}: LocalAuthBackendOptions = {}): AuthBackend => ({
+  name: 'local',
+
+  restoreSession: async () => {
+    const { token, user } = await loadSession();
+    // Sessions from before tokens were stored get one on first launch
+    if (user && !token) {
+      await saveSession(generateSessionToken(), user);
+    }
+    return user;
+  },
+
+  signIn: async (email, password) => {
+    const users = await getUserRecords();
+    const record = users.find(u => u.email === email);
+
+    if (!record || !(await checkPassword(record, password))) {
+      throw new Error('Invalid email or password');
+    }
+
+    // Plaintext and outdated records are re-hashed now that we know the password
+    if (isLegacyRecord(record) || needsRehash(record.password)) {
+      const upgraded = await upgradeUserRecord(record, password);
+      await saveUserRecords(users.map(u => (u.id === record.id ? upgraded : u)));
+    }
+
+    const user = toUser(record);
+    await saveSession(generateSessionToken(), user);
+    return user;
+  },
+
+  signUp: async (email, username, password) => {
+    const users = await getUserRecords();
+
+    // Check if email already exists
+    if (users.some(u => u.email === email)) {
+      throw new Error('Email already registered');
+    }
+
+    // Create new user with a salted password hash
+    const record = await createUserRecord(email, username, password);
+    await saveUserRecords([...users, record]);
+
+    const user = toUser(record);
+    await saveSession(generateSessionToken(), user);
+    return user;
+  },
+
+  signOut: async () => {
+    await clearSession();
+  },
+
+  updateProfile: async (changes) => {
+    const { token, users, record } = await loadCurrentRecord();
+
+    if (changes.email && users.some(u => u.email === changes.email && u.id !== record.id)) {
+      throw new Error('Email already registered');
+    }
+
+    const updated = applyProfileUpdate(record, changes);
+    await saveUserRecords(users.map(u => (u.id === record.id ? updated : u)));
+
+    const user = toUser(updated);
+    await saveSession(token, user);
+    return user;
+  },
+
+  changePassword: async (currentPassword, newPassword) => {
+    const { users, record } = await loadCurrentRecord();
+
+    if (!(await checkPassword(record, currentPassword))) {
+      throw new Error('Current password is incorrect');
+    }
+
+    const updated = await upgradeUserRecord(record, newPassword);
+    await saveUserRecords(users.map(u => (u.id === record.id ? updated : u)));
+  },
+
+  requestPasswordReset: async (email) => {
+    // Checked before the lookup so the error doesn't give away which emails have accounts
+    if (!resetTransport) {
+      throw new Error(RESET_UNAVAILABLE_MESSAGE);
+    }
+    const users = await getUserRecords();
+    if (!users.some(u => u.email === email)) {
+      return;
+    }
+
+    const { code, expiresAt } = await issueResetCode(email);
+    await resetTransport.send({ email, code, expiresAt });
+  },
+
+  verifyResetCode: (email, code) => redeemResetCode(email, code),
+
+  resetPassword: async (resetToken, newPassword) => {
+    const email = await consumeResetToken(resetToken);
+    const users = await getUserRecords();
+    const record = users.find(u => u.email === email);
+    if (!record) {
+      throw new Error('Account not found');
+    }
+
+    const updated = await upgradeUserRecord(record, newPassword);
+    await saveUserRecords(users.map(u => (u.id === record.id ? updated : u)));
+  },
+});
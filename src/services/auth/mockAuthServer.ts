@@ -0,0 +1,276 @@
+import { bytesToHex } from '@noble/hashes/utils';
+import * as Crypto from 'expo-crypto';
+import {
+  generateResetCode,
+  generateResetToken,
+  INVALID_RESET_CODE_MESSAGE,
+  INVALID_RESET_TOKEN_MESSAGE,
+  MAX_RESET_ATTEMPTS,
+  RESET_CODE_TTL_MS,
+} from './passwordReset';
+import { createConsoleResetTransport, ResetCodeTransport } from './resetDelivery';
+import { User } from './types';
+
+interface MockAccount extends User {
+  password: string;
+}
+
+interface MockAuthServerOptions {
+  accessTokenTtlMs?: number;
+  accounts?: MockAccount[];
+  // Where reset codes go; read them back from a console transport's outbox in tests
+  resetTransport?: ResetCodeTransport;
+}
+
+export interface MockAuthServer {
+  // Drop-in for fetch; pass to createHttpAuthBackend({ fetchImpl })
+  fetch: typeof fetch;
+  accounts: MockAccount[];
+  // Make every issued access token fail with 401, forcing a refresh
+  expireAccessTokens: () => void;
+  // Reject every refresh token, forcing a new sign in
+  revokeRefreshTokens: () => void;
+  requests: Array<{ method: string; path: string }>;
+}
+
+const base64Url = (value: object) =>
+  btoa(JSON.stringify(value)).replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_');
+
+const json = (status: number, body: object) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+const badRequest = () => json(400, { message: 'Missing or invalid fields' });
+
+// Request bodies are untrusted JSON, so every field is checked as it's read
+type RequestBody = Record<string, unknown>;
+
+const toRequestBody = (value: unknown): RequestBody =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as RequestBody) : {};
+
+const stringField = (body: RequestBody, name: string) => {
+  const value = body[name];
+  return typeof value === 'string' ? value : undefined;
+};
+
+// The string fields a route needs, or undefined if any is missing
+const requireFields = <K extends string>(body: RequestBody, names: K[]) => {
+  const fields = {} as Record<K, string>;
+  for (const name of names) {
+    const value = stringField(body, name);
+    if (value === undefined) {
+      return undefined;
+    }
+    fields[name] = value;
+  }
+  return fields;
+};
+
+// In-memory implementation of the auth API used by the HTTP backend, for
+// development without a server and for tests. Tokens are JWT-shaped but unsigned.
+export const createMockAuthServer = ({
+  accessTokenTtlMs = 15 * 60 * 1000,
+  accounts = [],
+  resetTransport = createConsoleResetTransport(),
+}: MockAuthServerOptions = {}): MockAuthServer => {
+  const accessTokens = new Map<string, { userId: string; expiresAt: number }>();
+  const refreshTokens = new Map<string, string>();
+  const resetCodes = new Map<string, { code: string; expiresAt: number; attempts: number }>();
+  const resetTokens = new Map<string, string>();
+  const requests: MockAuthServer['requests'] = [];
+
+  const issueTokens = (userId: string) => {
+    const expiresAt = Date.now() + accessTokenTtlMs;
+    const accessToken = [
+      base64Url({ alg: 'none', typ: 'JWT' }),
+      base64Url({ sub: userId, exp: Math.floor(expiresAt / 1000) }),
+      bytesToHex(Crypto.getRandomBytes(8)),
+    ].join('.');
+    const refreshToken = bytesToHex(Crypto.getRandomBytes(32));
+    accessTokens.set(accessToken, { userId, expiresAt });
+    refreshTokens.set(refreshToken, userId);
+    return { accessToken, refreshToken };
+  };
+
+  // End every session of an account, e.g. after its password changed
+  const revokeSessions = (userId: string) => {
+    accessTokens.forEach((session, token) => {
+      if (session.userId === userId) {
+        accessTokens.delete(token);
+      }
+    });
+    refreshTokens.forEach((owner, token) => {
+      if (owner === userId) {
+        refreshTokens.delete(token);
+      }
+    });
+  };
+
+  const toUser = ({ password, ...user }: MockAccount): User => user;
+
+  const authorize = (headers: Headers) => {
+    const token = headers.get('Authorization')?.replace(/^Bearer /, '');
+    const session = token ? accessTokens.get(token) : undefined;
+    if (!session || session.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    return accounts.find(account => account.id === session.userId);
+  };
+
+  const handle = async (method: string, path: string, headers: Headers, body: RequestBody) => {
+    switch (`${method} ${path}`) {
+      case 'POST /auth/register': {
+        const fields = requireFields(body, ['email', 'username', 'password']);
+        if (!fields) {
+          return badRequest();
+        }
+        if (accounts.some(account => account.email === fields.email)) {
+          return json(409, { message: 'Email already registered' });
+        }
+        const account: MockAccount = {
+          id: Date.now().toString(),
+          email: fields.email,
+          username: fields.username,
+          password: fields.password,
+        };
+        accounts.push(account);
+        return json(201, { user: toUser(account), ...issueTokens(account.id) });
+      }
+      case 'POST /auth/login': {
+        const fields = requireFields(body, ['email', 'password']);
+        if (!fields) {
+          return badRequest();
+        }
+        const account = accounts.find(
+          a => a.email === fields.email && a.password === fields.password
+        );
+        if (!account) {
+          return json(401, { message: 'Invalid email or password' });
+        }
+        return json(200, { user: toUser(account), ...issueTokens(account.id) });
+      }
+      case 'POST /auth/refresh': {
+        const refreshToken = stringField(body, 'refreshToken');
+        const userId = refreshToken ? refreshTokens.get(refreshToken) : undefined;
+        if (!userId) {
+          return json(401, { message: 'Invalid refresh token' });
+        }
+        // Refresh tokens are single use
+        refreshTokens.delete(refreshToken);
+        return json(200, issueTokens(userId));
+      }
+      case 'POST /auth/logout': {
+        const refreshToken = stringField(body, 'refreshToken');
+        if (refreshToken) {
+          refreshTokens.delete(refreshToken);
+        }
+        return new Response(null, { status: 204 });
+      }
+      case 'POST /auth/password-reset/request': {
+        const email = stringField(body, 'email');
+        if (!email) {
+          return badRequest();
+        }
+        if (accounts.some(account => account.email === email)) {
+          const code = generateResetCode();
+          const expiresAt = Date.now() + RESET_CODE_TTL_MS;
+          resetCodes.set(email, { code, expiresAt, attempts: 0 });
+          await resetTransport.send({ email, code, expiresAt });
+        }
+        return new Response(null, { status: 202 });
+      }
+      case 'POST /auth/password-reset/verify': {
+        const fields = requireFields(body, ['email', 'code']);
+        if (!fields) {
+          return badRequest();
+        }
+        const reset = resetCodes.get(fields.email);
+        if (!reset || reset.expiresAt <= Date.now() || reset.attempts >= MAX_RESET_ATTEMPTS) {
+          return json(400, { message: INVALID_RESET_CODE_MESSAGE });
+        }
+        if (reset.code !== fields.code.trim()) {
+          reset.attempts += 1;
+          return json(400, { message: INVALID_RESET_CODE_MESSAGE });
+        }
+        resetCodes.delete(fields.email);
+        const resetToken = generateResetToken();
+        resetTokens.set(resetToken, fields.email);
+        return json(200, { resetToken });
+      }
+      case 'POST /auth/password-reset/confirm': {
+        const fields = requireFields(body, ['resetToken', 'password']);
+        if (!fields) {
+          return badRequest();
+        }
+        const email = resetTokens.get(fields.resetToken);
+        const account = email ? accounts.find(a => a.email === email) : undefined;
+        if (!account) {
+          return json(400, { message: INVALID_RESET_TOKEN_MESSAGE });
+        }
+        resetTokens.delete(fields.resetToken);
+        account.password = fields.password;
+        revokeSessions(account.id);
+        return new Response(null, { status: 204 });
+      }
+      case 'PATCH /auth/me': {
+        const account = authorize(headers);
+        if (!account) {
+          return json(401, { message: 'Unauthorized' });
+        }
+        const email = stringField(body, 'email');
+        if (email && accounts.some(a => a.email === email && a.id !== account.id)) {
+          return json(409, { message: 'Email already registered' });
+        }
+        account.username = stringField(body, 'username') ?? account.username;
+        account.email = email ?? account.email;
+        return json(200, { user: toUser(account) });
+      }
+      case 'POST /auth/change-password': {
+        const account = authorize(headers);
+        if (!account) {
+          return json(401, { message: 'Unauthorized' });
+        }
+        const fields = requireFields(body, ['currentPassword', 'newPassword']);
+        if (!fields) {
+          return badRequest();
+        }
+        // 403 rather than 401, which the client would take as an expired access token
+        if (account.password !== fields.currentPassword) {
+          return json(403, { message: 'Current password is incorrect' });
+        }
+        account.password = fields.newPassword;
+        return new Response(null, { status: 204 });
+      }
+      case 'GET /auth/me': {
+        const account = authorize(headers);
+        return account ? json(200, { user: toUser(account) }) : json(401, { message: 'Unauthorized' });
+      }
+      default:
+        return json(404, { message: `No route for ${method} ${path}` });
+    }
+  };
+
+  const mockFetch = (async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    const url = new URL(typeof input === 'string' ? input : input instanceof URL ? input.href : input.url);
+    const method = (init.method || 'GET').toUpperCase();
+    requests.push({ method, path: url.pathname });
+    const body: unknown = typeof init.body === 'string' ? JSON.parse(init.body) : {};
+    return handle(method, url.pathname, new Headers(init.headers), toRequestBody(body));
+  }) as typeof fetch;
+
+  return {
+    fetch: mockFetch,
+    accounts,
+    requests,
+    expireAccessTokens: () => {
+      accessTokens.forEach(session => {
+        session.expiresAt = 0;
+      });
+    },
+    revokeRefreshTokens: () => {
+      refreshTokens.clear();
+    },
+  };
+};
@@ -0,0 +1,54 @@
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import * as Crypto from 'expo-crypto';
+
+export interface PasswordHash {
+  algorithm: 'pbkdf2-sha256';
+  iterations: number;
+  salt: string; // hex
+  hash: string; // hex
+}
+
+// Raise ITERATIONS over time; older hashes are upgraded on the next sign in
+const ITERATIONS = 100000;
+const SALT_BYTES = 16;
+const KEY_BYTES = 32;
+
+const derive = (password: string, salt: Uint8Array, iterations: number) =>
+  pbkdf2Async(sha256, utf8ToBytes(password), salt, { c: iterations, dkLen: KEY_BYTES });
+
+// Compare without bailing out on the first differing byte
+const constantTimeEqual = (a: Uint8Array, b: Uint8Array) => {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+};
+
+export const hashPassword = async (password: string): Promise<PasswordHash> => {
+  const salt = Crypto.getRandomBytes(SALT_BYTES);
+  const hash = await derive(password, salt, ITERATIONS);
+  return {
+    algorithm: 'pbkdf2-sha256',
+    iterations: ITERATIONS,
+    salt: bytesToHex(salt),
+    hash: bytesToHex(hash),
+  };
+};
+
+export const verifyPassword = async (password: string, stored: PasswordHash) => {
+  if (stored.algorithm !== 'pbkdf2-sha256') {
+    throw new Error(`Unsupported password hash algorithm: ${stored.algorithm}`);
+  }
+  const hash = await derive(password, hexToBytes(stored.salt), stored.iterations);
+  return constantTimeEqual(hash, hexToBytes(stored.hash));
+};
+
+export const needsRehash = (stored: PasswordHash) => stored.iterations < ITERATIONS;
+
+export const generateSessionToken = () => bytesToHex(Crypto.getRandomBytes(32));
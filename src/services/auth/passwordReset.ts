@@ -0,0 +1,88 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import * as Crypto from 'expo-crypto';
+
+const RESETS_STORAGE_KEY = 'password_resets';
+
+export const RESET_CODE_LENGTH = 6;
+export const RESET_CODE_TTL_MS = 15 * 60 * 1000;
+export const MAX_RESET_ATTEMPTS = 5;
+
+export const INVALID_RESET_CODE_MESSAGE = 'Invalid or expired code';
+export const INVALID_RESET_TOKEN_MESSAGE = 'This reset link has expired. Please request a new code.';
+export const RESET_UNAVAILABLE_MESSAGE = "Password reset by email isn't available right now.";
+
+// Only the hash of the code is stored; the reset token is handed out once the code checks out
+interface PendingReset {
+  email: string;
+  // Cleared once the code is redeemed, so each code works once
+  codeHash?: string;
+  expiresAt: number;
+  attempts: number;
+  resetToken?: string;
+}
+
+// A 32-bit random value keeps the modulo bias across 10^6 codes negligible
+export const generateResetCode = () => {
+  const value = new DataView(Crypto.getRandomBytes(4).buffer).getUint32(0);
+  return (value % 10 ** RESET_CODE_LENGTH).toString().padStart(RESET_CODE_LENGTH, '0');
+};
+
+export const generateResetToken = () => bytesToHex(Crypto.getRandomBytes(32));
+
+const hashResetCode = (code: string) => bytesToHex(sha256(utf8ToBytes(code)));
+
+const getPendingResets = async (): Promise<PendingReset[]> => {
+  const json = await AsyncStorage.getItem(RESETS_STORAGE_KEY);
+  const resets: PendingReset[] = json ? JSON.parse(json) : [];
+  return resets.filter(reset => reset.expiresAt > Date.now());
+};
+
+const savePendingResets = async (resets: PendingReset[]) => {
+  await AsyncStorage.setItem(RESETS_STORAGE_KEY, JSON.stringify(resets));
+};
+
+// Start a reset for an on-device account, replacing any earlier code for it
+export const issueResetCode = async (email: string) => {
+  const code = generateResetCode();
+  const expiresAt = Date.now() + RESET_CODE_TTL_MS;
+  const resets = await getPendingResets();
+  await savePendingResets([
+    ...resets.filter(reset => reset.email !== email),
+    { email, codeHash: hashResetCode(code), expiresAt, attempts: 0 },
+  ]);
+  return { code, expiresAt };
+};
+
+// Trade a correct code for a reset token. Too many wrong guesses void the code, and
+// a redeemed code can't be traded again.
+export const redeemResetCode = async (email: string, code: string) => {
+  const resets = await getPendingResets();
+  const reset = resets.find(r => r.email === email);
+  if (!reset?.codeHash || reset.attempts >= MAX_RESET_ATTEMPTS) {
+    throw new Error(INVALID_RESET_CODE_MESSAGE);
+  }
+
+  if (hashResetCode(code.trim()) !== reset.codeHash) {
+    reset.attempts += 1;
+    await savePendingResets(resets);
+    throw new Error(INVALID_RESET_CODE_MESSAGE);
+  }
+
+  reset.codeHash = undefined;
+  reset.resetToken = generateResetToken();
+  await savePendingResets(resets);
+  return reset.resetToken;
+};
+
+// Resolve a reset token to its account email; each token works once
+export const consumeResetToken = async (resetToken: string) => {
+  const resets = await getPendingResets();
+  const reset = resets.find(r => r.resetToken === resetToken);
+  if (!reset) {
+    throw new Error(INVALID_RESET_TOKEN_MESSAGE);
+  }
+  await savePendingResets(resets.filter(r => r !== reset));
+  return reset.email;
+};
@@ -0,0 +1,60 @@
+export interface ResetCodeMessage {
+  email: string;
+  code: string;
+  expiresAt: number;
+}
+
+// How a password reset code reaches its owner
+export interface ResetCodeTransport {
+  name: string;
+  send: (message: ResetCodeMessage) => Promise<void>;
+}
+
+export interface ConsoleResetTransport extends ResetCodeTransport {
+  // Every message sent so far, newest last
+  outbox: ResetCodeMessage[];
+}
+
+interface EmailResetTransportOptions {
+  // Endpoint that accepts { email, code, expiresAt } and sends the reset email itself
+  endpoint: string;
+  fetchImpl?: typeof fetch;
+}
+
+const formatExpiry = (expiresAt: number) =>
+  `${Math.max(1, Math.round((expiresAt - Date.now()) / 60000))} minutes`;
+
+// Logs codes instead of delivering them, for development and tests
+export const createConsoleResetTransport = (): ConsoleResetTransport => {
+  const outbox: ResetCodeMessage[] = [];
+  return {
+    name: 'console',
+    outbox,
+    send: async (message) => {
+      outbox.push(message);
+      console.log(
+        `[password reset] Code for ${message.email}: ${message.code} (expires in ${formatExpiry(message.expiresAt)})`
+      );
+    },
+  };
+};
+
+// Hands the code to a purpose-built endpoint that renders and sends the email on the
+// server. The app never chooses the sender, subject or body, so the endpoint (whose
+// URL ships in the bundle) can't be used to send anything but reset codes.
+export const createEmailResetTransport = ({
+  endpoint,
+  fetchImpl = fetch,
+}: EmailResetTransportOptions): ResetCodeTransport => ({
+  name: 'email',
+  send: async ({ email, code, expiresAt }) => {
+    const response = await fetchImpl(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, code, expiresAt }),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to send reset email (status ${response.status})`);
+    }
+  },
+});
@@ -0,0 +1,31 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ENV } from '../../config/env';
+import { User } from './types';
+
+// The token lives under its own key, apart from the cached profile.
+// Its format is up to the backend that wrote it.
+export const loadSession = async () => {
+  const [[, token], [, userJson]] = await AsyncStorage.multiGet([
+    ENV.STORAGE_KEYS.USER_TOKEN,
+    ENV.STORAGE_KEYS.USER,
+  ]);
+  return {
+    token,
+    user: userJson ? (JSON.parse(userJson) as User) : null,
+  };
+};
+
+export const saveSession = async (token: string, user: User) => {
+  await AsyncStorage.multiSet([
+    [ENV.STORAGE_KEYS.USER_TOKEN, token],
+    [ENV.STORAGE_KEYS.USER, JSON.stringify(user)],
+  ]);
+};
+
+export const saveSessionToken = async (token: string) => {
+  await AsyncStorage.setItem(ENV.STORAGE_KEYS.USER_TOKEN, token);
+};
+
+export const clearSession = async () => {
+  await AsyncStorage.multiRemove([ENV.STORAGE_KEYS.USER_TOKEN, ENV.STORAGE_KEYS.USER]);
+};
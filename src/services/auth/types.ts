@@ -0,0 +1,37 @@
+export interface User {
+  id: string;
+  email: string;
+  username: string;
+  // File URI of the photo picked on this device, filled in by AuthContext from
+  // services/avatars. Backends never store or send it. Without one the app shows
+  // the user's initials.
+  avatarUri?: string;
+}
+
+// Omitted fields stay as they are
+export interface ProfileUpdate {
+  username?: string;
+  email?: string;
+}
+
+// Where accounts live. AuthContext only talks to the active backend, so the
+// on-device store and a remote API are interchangeable.
+export interface AuthBackend {
+  name: string;
+  // Resolve the user of a stored session, or null when signed out
+  restoreSession: () => Promise<User | null>;
+  signIn: (email: string, password: string) => Promise<User>;
+  signUp: (email: string, username: string, password: string) => Promise<User>;
+  signOut: () => Promise<void>;
+  // Edit the signed-in account. Emails stay unique across accounts.
+  updateProfile: (changes: ProfileUpdate) => Promise<User>;
+  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  // Password reset: send a code to the account's email, trade the code for a
+  // one-time reset token, then set a new password with that token.
+  // Requesting a code for an unknown email succeeds quietly so accounts can't be probed.
+  requestPasswordReset: (email: string) => Promise<void>;
+  verifyResetCode: (email: string, code: string) => Promise<string>;
+  resetPassword: (resetToken: string, newPassword: string) => Promise<void>;
+  // Called when a stored session can no longer be used, e.g. a rejected refresh token
+  onSessionExpired?: (listener: () => void) => () => void;
+}
@@ -0,0 +1,64 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { hashPassword, PasswordHash } from './passwordHashing';
+
+const USERS_STORAGE_KEY = 'users';
+
+export const USER_RECORD_VERSION = 2;
+
+// Version 1 records were written before passwords were hashed and carry no version field
+interface LegacyUserRecord {
+  version?: 1;
+  id: string;
+  email: string;
+  username: string;
+  password: string;
+}
+
+export interface UserRecord {
+  version: typeof USER_RECORD_VERSION;
+  id: string;
+  email: string;
+  username: string;
+  password: PasswordHash;
+  createdAt: number;
+}
+
+export type StoredUserRecord = LegacyUserRecord | UserRecord;
+
+export const isLegacyRecord = (record: StoredUserRecord): record is LegacyUserRecord =>
+  record.version !== USER_RECORD_VERSION;
+
+export const getUserRecords = async (): Promise<StoredUserRecord[]> => {
+  const usersJson = await AsyncStorage.getItem(USERS_STORAGE_KEY);
+  return usersJson ? JSON.parse(usersJson) : [];
+};
+
+export const saveUserRecords = async (users: StoredUserRecord[]) => {
+  await AsyncStorage.setItem(USERS_STORAGE_KEY, JSON.stringify(users));
+};
+
+export const createUserRecord = async (
+  email: string,
+  username: string,
+  password: string
+): Promise<UserRecord> => ({
+  version: USER_RECORD_VERSION,
+  id: Date.now().toString(),
+  email,
+  username,
+  password: await hashPassword(password),
+  createdAt: Date.now(),
+});
+
+// Re-hash the password into a current record, keeping the account's identity
+export const upgradeUserRecord = async (
+  record: StoredUserRecord,
+  password: string
+): Promise<UserRecord> => ({
+  version: USER_RECORD_VERSION,
+  id: record.id,
+  email: record.email,
+  username: record.username,
+  password: await hashPassword(password),
+  createdAt: isLegacyRecord(record) ? Date.now() : record.createdAt,
+});
@@ -0,0 +1,66 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { ENV } from '../config/env';
+
+// Profile photos stay on the device: a file per user in app storage, plus a small
+// map from user id to file name. Names are relative because the app's document
+// directory can move between installs and updates (it does on iOS).
+const AVATAR_DIRECTORY = 'avatars/';
+
+const toFileUri = (filename: string) => `${FileSystem.documentDirectory}${filename}`;
+
+const loadAvatarFiles = async (): Promise<Record<string, string>> => {
+  const filesJson = await AsyncStorage.getItem(ENV.STORAGE_KEYS.AVATARS);
+  return filesJson ? JSON.parse(filesJson) : {};
+};
+
+const deleteFile = async (filename: string) => {
+  try {
+    await FileSystem.deleteAsync(toFileUri(filename), { idempotent: true });
+  } catch (error) {
+    console.error('Error deleting avatar:', error);
+  }
+};
+
+export const getAvatarUri = async (userId: string) => {
+  try {
+    const filename = (await loadAvatarFiles())[userId];
+    return filename ? toFileUri(filename) : undefined;
+  } catch (error) {
+    console.error('Error loading avatar:', error);
+    return undefined;
+  }
+};
+
+// Copy a picked photo out of the picker's cache, which the OS may clear, and make it
+// the user's avatar. null goes back to initials. Resolves with the new file URI.
+export const setAvatar = async (userId: string, sourceUri: string | null) => {
+  const files = await loadAvatarFiles();
+  const previous = files[userId];
+  const filename = sourceUri ? `${AVATAR_DIRECTORY}${userId}-${Date.now()}.jpg` : undefined;
+
+  try {
+    if (sourceUri) {
+      await FileSystem.makeDirectoryAsync(toFileUri(AVATAR_DIRECTORY), { intermediates: true });
+      await FileSystem.copyAsync({ from: sourceUri, to: toFileUri(filename) });
+    }
+    const updated = { ...files };
+    if (filename) {
+      updated[userId] = filename;
+    } else {
+      delete updated[userId];
+    }
+    await AsyncStorage.setItem(ENV.STORAGE_KEYS.AVATARS, JSON.stringify(updated));
+  } catch (error) {
+    console.error('Error saving avatar:', error);
+    if (filename) {
+      await deleteFile(filename);
+    }
+    throw error;
+  }
+
+  if (previous) {
+    await deleteFile(previous);
+  }
+  return filename ? toFileUri(filename) : undefined;
+};
@@ -0,0 +1,184 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ENV } from '../config/env';
+import { isNetworkError } from './apiErrors';
+
+export interface CacheOptions {
+  // Separates caches in storage, e.g. 'search' or 'details'
+  namespace: string;
+  // Entries older than this are served as stale and refreshed in the background
+  ttlMs: number;
+  // Entries older than this are dropped and never served
+  maxAgeMs: number;
+  // Size limits; the oldest entries are evicted first
+  maxEntries: number;
+  maxBytes: number;
+}
+
+export interface CacheHit<T> {
+  value: T;
+  storedAt: number;
+  stale: boolean;
+}
+
+export interface PersistentCache<T> {
+  get: (key: string) => Promise<CacheHit<T> | null>;
+  set: (key: string, value: T) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+// What a cached call hands back to hooks and screens
+export interface CachedResult<T> {
+  data: T;
+  // Older than the cache's TTL; a refresh has been started
+  stale: boolean;
+  // The refresh failed for lack of a connection, so data is all we have
+  offline: boolean;
+  // When data was fetched, if it came from the cache
+  storedAt?: number;
+}
+
+interface IndexEntry {
+  key: string;
+  storedAt: number;
+  size: number;
+}
+
+// AsyncStorage-backed cache. Each entry is its own storage item; a per-namespace
+// index tracks ages and sizes so limits can be enforced without reading entries.
+export const createPersistentCache = <T>({
+  namespace,
+  ttlMs,
+  maxAgeMs,
+  maxEntries,
+  maxBytes,
+}: CacheOptions): PersistentCache<T> => {
+  const prefix = `${ENV.STORAGE_KEYS.CACHE}:${namespace}`;
+  const indexKey = `${prefix}:index`;
+  const entryKey = (key: string) => `${prefix}:${key}`;
+  let index: IndexEntry[] | null = null;
+  // Index updates are serialized so concurrent writes don't drop each other's entries
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const serialize = <R>(task: () => Promise<R>): Promise<R> => {
+    const run = queue.then(task, task);
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  const loadIndex = async () => {
+    if (!index) {
+      const indexJson = await AsyncStorage.getItem(indexKey);
+      index = indexJson ? JSON.parse(indexJson) : [];
+    }
+    return index;
+  };
+
+  const saveIndex = async (updated: IndexEntry[]) => {
+    index = updated;
+    await AsyncStorage.setItem(indexKey, JSON.stringify(updated));
+  };
+
+  const remove = (keys: string[]) => serialize(async () => {
+    const current = await loadIndex();
+    await AsyncStorage.multiRemove(keys.map(entryKey));
+    await saveIndex(current.filter(entry => !keys.includes(entry.key)));
+  });
+
+  return {
+    get: async (key) => {
+      try {
+        const entry = (await loadIndex()).find(e => e.key === key);
+        if (!entry) {
+          return null;
+        }
+
+        const age = Date.now() - entry.storedAt;
+        if (age > maxAgeMs) {
+          await remove([key]);
+          return null;
+        }
+
+        const valueJson = await AsyncStorage.getItem(entryKey(key));
+        if (!valueJson) {
+          await remove([key]);
+          return null;
+        }
+        return { value: JSON.parse(valueJson), storedAt: entry.storedAt, stale: age > ttlMs };
+      } catch (error) {
+        // A broken cache shouldn't stop the network request behind it
+        console.error('Error reading cache:', { namespace, key, error });
+        return null;
+      }
+    },
+
+    set: (key, value) => serialize(async () => {
+      try {
+        const valueJson = JSON.stringify(value);
+        if (valueJson.length > maxBytes) {
+          return;
+        }
+
+        const updated = [
+          ...(await loadIndex()).filter(entry => entry.key !== key),
+          { key, storedAt: Date.now(), size: valueJson.length },
+        ].sort((a, b) => a.storedAt - b.storedAt);
+
+        const evicted: string[] = [];
+        let totalBytes = updated.reduce((sum, entry) => sum + entry.size, 0);
+        while (updated.length > maxEntries || totalBytes > maxBytes) {
+          const oldest = updated.shift();
+          totalBytes -= oldest.size;
+          evicted.push(oldest.key);
+        }
+
+        if (evicted.length > 0) {
+          await AsyncStorage.multiRemove(evicted.map(entryKey));
+        }
+        await AsyncStorage.setItem(entryKey(key), valueJson);
+        await saveIndex(updated);
+      } catch (error) {
+        console.error('Error writing cache:', { namespace, key, error });
+      }
+    }),
+
+    clear: () => serialize(async () => {
+      const current = await loadIndex();
+      await AsyncStorage.multiRemove([indexKey, ...current.map(entry => entryKey(entry.key))]);
+      index = [];
+    }),
+  };
+};
+
+// Serve from the cache when possible. A fresh entry skips the network; a stale one
+// is returned straight away and refreshed in the background, with onUpdate called
+// once the refresh settles. Without an entry this waits for the network.
+export const staleWhileRevalidate = async <T>(
+  cache: PersistentCache<T>,
+  key: string,
+  fetcher: () => Promise<T>,
+  onUpdate?: (result: CachedResult<T>) => void
+): Promise<CachedResult<T>> => {
+  const hit = await cache.get(key);
+
+  const revalidate = async () => {
+    const data = await fetcher();
+    await cache.set(key, data);
+    return data;
+  };
+
+  if (hit && !hit.stale) {
+    return { data: hit.value, stale: false, offline: false, storedAt: hit.storedAt };
+  }
+
+  if (hit) {
+    revalidate()
+      .then(data => onUpdate?.({ data, stale: false, offline: false }))
+      .catch(error => {
+        console.error('Error refreshing cached data:', { key, error });
+        onUpdate?.({ data: hit.value, stale: true, offline: isNetworkError(error), storedAt: hit.storedAt });
+      });
+    return { data: hit.value, stale: true, offline: false, storedAt: hit.storedAt };
+  }
+
+  return { data: await revalidate(), stale: false, offline: false };
+};
@@ -0,0 +1,144 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ENV } from '../config/env';
+import { Restaurant } from '../types/restaurant';
+
+export interface FavoritesRepository {
+  getAll: (userId: string) => Promise<Restaurant[]>;
+  add: (userId: string, restaurant: Restaurant) => Promise<Restaurant[]>;
+  remove: (userId: string, restaurantId: string) => Promise<Restaurant[]>;
+  removeMany: (userId: string, restaurantIds: string[]) => Promise<Restaurant[]>;
+  // Put previously removed favorites back at their old positions
+  restore: (userId: string, entries: RemovedFavorite[]) => Promise<Restaurant[]>;
+  // Persist a new ordering; ids missing from the list keep their relative order at the end
+  reorder: (userId: string, restaurantIds: string[]) => Promise<Restaurant[]>;
+  // Re-read the list from storage, bypassing the in-memory copy
+  reload: (userId: string) => Promise<Restaurant[]>;
+  // Called with the new list whenever the user's favorites change
+  subscribe: (userId: string, listener: FavoritesListener) => () => void;
+  clearCache: () => void;
+}
+
+export type FavoritesListener = (favorites: Restaurant[]) => void;
+
+export interface RemovedFavorite {
+  restaurant: Restaurant;
+  index: number;
+}
+
+// Favorites are stored per account; the bare key is the old device-wide list
+const storageKey = (userId: string) => `${ENV.STORAGE_KEYS.FAVORITES}:${userId}`;
+
+// In-memory copy of each user's list, dropped on sign out
+const cache = new Map<string, Restaurant[]>();
+const listeners = new Map<string, Set<FavoritesListener>>();
+
+const notify = (userId: string, favorites: Restaurant[]) => {
+  listeners.get(userId)?.forEach(listener => listener(favorites));
+};
+
+const save = async (userId: string, favorites: Restaurant[]) => {
+  cache.set(userId, favorites);
+  notify(userId, favorites);
+  await AsyncStorage.setItem(storageKey(userId), JSON.stringify(favorites));
+};
+
+// Move the device-wide list into the first account that loads favorites
+const migrateLegacyFavorites = async (userId: string) => {
+  const legacyJson = await AsyncStorage.getItem(ENV.STORAGE_KEYS.FAVORITES);
+  if (!legacyJson) {
+    return [];
+  }
+
+  const legacyFavorites: Restaurant[] = JSON.parse(legacyJson).filter(Boolean);
+  await save(userId, legacyFavorites);
+  await AsyncStorage.removeItem(ENV.STORAGE_KEYS.FAVORITES);
+  console.log('Migrated legacy favorites:', { userId, count: legacyFavorites.length });
+  return legacyFavorites;
+};
+
+export const favoritesRepository: FavoritesRepository = {
+  getAll: async (userId) => {
+    const cached = cache.get(userId);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const favoritesJson = await AsyncStorage.getItem(storageKey(userId));
+      const favorites: Restaurant[] = favoritesJson
+        ? JSON.parse(favoritesJson)
+        : await migrateLegacyFavorites(userId);
+      cache.set(userId, favorites);
+      return favorites;
+    } catch (error) {
+      console.error('Error loading favorites:', error);
+      throw error;
+    }
+  },
+
+  add: async (userId, restaurant) => {
+    const favorites = await favoritesRepository.getAll(userId);
+    if (favorites.some(fav => fav.id === restaurant.id)) {
+      return favorites;
+    }
+
+    const updated = [...favorites, restaurant];
+    await save(userId, updated);
+    return updated;
+  },
+
+  remove: async (userId, restaurantId) => {
+    return favoritesRepository.removeMany(userId, [restaurantId]);
+  },
+
+  removeMany: async (userId, restaurantIds) => {
+    const favorites = await favoritesRepository.getAll(userId);
+    const updated = favorites.filter(fav => !restaurantIds.includes(fav.id));
+    await save(userId, updated);
+    return updated;
+  },
+
+  restore: async (userId, entries) => {
+    const favorites = await favoritesRepository.getAll(userId);
+    const updated = favorites.filter(fav => !entries.some(entry => entry.restaurant.id === fav.id));
+    [...entries]
+      .sort((a, b) => a.index - b.index)
+      .forEach(({ restaurant, index }) => {
+        updated.splice(Math.min(index, updated.length), 0, restaurant);
+      });
+    await save(userId, updated);
+    return updated;
+  },
+
+  reorder: async (userId, restaurantIds) => {
+    const favorites = await favoritesRepository.getAll(userId);
+    const byId = new Map(favorites.map(fav => [fav.id, fav]));
+    const ordered = restaurantIds
+      .map(id => byId.get(id))
+      .filter((fav): fav is Restaurant => !!fav);
+    const rest = favorites.filter(fav => !restaurantIds.includes(fav.id));
+    const updated = [...ordered, ...rest];
+    await save(userId, updated);
+    return updated;
+  },
+
+  reload: async (userId) => {
+    cache.delete(userId);
+    const favorites = await favoritesRepository.getAll(userId);
+    notify(userId, favorites);
+    return favorites;
+  },
+
+  subscribe: (userId, listener) => {
+    const userListeners = listeners.get(userId) ?? new Set<FavoritesListener>();
+    userListeners.add(listener);
+    listeners.set(userId, userListeners);
+    return () => {
+      userListeners.delete(listener);
+    };
+  },
+
+  clearCache: () => {
+    cache.clear();
+  },
+};
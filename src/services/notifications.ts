@@ -0,0 +1,157 @@
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+import { loadOpeningSchedule } from './openingHours';
+import { NotificationSettings } from './preferences';
+import { Restaurant } from '../types/restaurant';
+import { OpeningSchedule } from '../utils/openingHours';
+
+// Attached to every notification we schedule, read back when one is tapped
+export type ReminderData =
+  | { type: 'meal_suggestion' }
+  | { type: 'favorite_reopened'; restaurantId: string };
+
+export type NotificationPermission = 'granted' | 'denied' | 'undetermined';
+
+const ANDROID_CHANNEL_ID = 'reminders';
+
+// iOS keeps at most 64 pending local notifications per app
+const MAX_SCHEDULED = 60;
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+
+// Show reminders as banners even while the app is open
+export const configureNotifications = async () => {
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: false,
+      shouldSetBadge: false,
+    }),
+  });
+
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync(ANDROID_CHANNEL_ID, {
+      name: 'Reminders',
+      importance: Notifications.AndroidImportance.DEFAULT,
+    });
+  }
+};
+
+export const getNotificationPermission = async (): Promise<NotificationPermission> => {
+  const { status } = await Notifications.getPermissionsAsync();
+  return status as NotificationPermission;
+};
+
+// Ask only when the OS still lets us; otherwise the user has to go to Settings
+export const requestNotificationPermission = async () => {
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) {
+    return true;
+  }
+  if (!current.canAskAgain) {
+    return false;
+  }
+  const { granted } = await Notifications.requestPermissionsAsync();
+  return granted;
+};
+
+const parseTime = (time: string) => {
+  const [hour, minute] = time.split(':').map(Number);
+  return { hour, minute };
+};
+
+const mealReminders = (settings: NotificationSettings): Notifications.NotificationRequestInput[] =>
+  [
+    { time: settings.lunchTime, title: 'Lunch time?' },
+    { time: settings.dinnerTime, title: 'What\'s for dinner?' },
+  ].map(({ time, title }) => ({
+    content: {
+      title,
+      body: 'Swipe through restaurants open near you.',
+      data: { type: 'meal_suggestion' },
+    },
+    trigger: {
+      type: Notifications.SchedulableTriggerInputTypes.DAILY,
+      channelId: ANDROID_CHANNEL_ID,
+      ...parseTime(time),
+    },
+  }));
+
+// One weekly reminder per opening, moved from the place's time zone to the device's
+const reopenedReminders = (
+  restaurant: Restaurant,
+  schedule: OpeningSchedule | null
+): Notifications.NotificationRequestInput[] => {
+  if (!schedule || schedule.alwaysOpen) {
+    return [];
+  }
+  const deviceOffset = -new Date().getTimezoneOffset();
+  const shift = schedule.utcOffsetMinutes === undefined ? 0 : deviceOffset - schedule.utcOffsetMinutes;
+
+  return schedule.intervals.map(({ start }) => {
+    const opensAt = (((start + shift) % MINUTES_PER_WEEK) + MINUTES_PER_WEEK) % MINUTES_PER_WEEK;
+    const minuteOfDay = opensAt % MINUTES_PER_DAY;
+    return {
+      content: {
+        title: `${restaurant.name} is open`,
+        body: 'One of your favorites just opened. Tap to see the details.',
+        data: { type: 'favorite_reopened', restaurantId: restaurant.id },
+      },
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.WEEKLY,
+        channelId: ANDROID_CHANNEL_ID,
+        // Places counts days from 0 = Sunday, expo-notifications from 1 = Sunday
+        weekday: Math.floor(opensAt / MINUTES_PER_DAY) + 1,
+        hour: Math.floor(minuteOfDay / 60),
+        minute: minuteOfDay % 60,
+      },
+    };
+  });
+};
+
+// Syncs run one at a time, so an earlier one can't cancel or duplicate what a later
+// one scheduled; the last sync started always wins
+let syncQueue: Promise<unknown> = Promise.resolve();
+
+const serialize = <R>(task: () => Promise<R>): Promise<R> => {
+  const run = syncQueue.then(task, task);
+  syncQueue = run.catch(() => undefined);
+  return run;
+};
+
+export const cancelReminders = () =>
+  serialize(() => Notifications.cancelAllScheduledNotificationsAsync());
+
+// Replace everything scheduled with reminders for the current settings and favorites
+export const scheduleReminders = (
+  settings: NotificationSettings,
+  favorites: Restaurant[]
+) => serialize(async () => {
+  try {
+    const requests = settings.mealSuggestions ? mealReminders(settings) : [];
+
+    if (settings.favoriteReopened) {
+      for (const restaurant of favorites) {
+        if (requests.length >= MAX_SCHEDULED) {
+          break;
+        }
+        try {
+          requests.push(...reopenedReminders(restaurant, await loadOpeningSchedule(restaurant.id)));
+        } catch (error) {
+          console.error('Error loading opening hours:', { id: restaurant.id, error });
+        }
+      }
+    }
+
+    await Notifications.cancelAllScheduledNotificationsAsync();
+    await Promise.all(
+      requests.slice(0, MAX_SCHEDULED).map(request => Notifications.scheduleNotificationAsync(request))
+    );
+    console.log('Scheduled reminders:', { count: Math.min(requests.length, MAX_SCHEDULED) });
+  } catch (error) {
+    console.error('Error scheduling reminders:', error);
+    throw error;
+  }
+});
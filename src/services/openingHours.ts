@@ -0,0 +1,15 @@
+import { getOpeningHoursCached } from './api';
+import { DetailedRestaurant } from '../types/restaurant';
+import { OpeningSchedule, parseOpeningHours } from '../utils/openingHours';
+
+// The schedule carried on the restaurant itself, when it came from the details call
+export const getRestaurantSchedule = (restaurant: DetailedRestaurant) =>
+  parseOpeningHours(restaurant.opening_hours, restaurant.utc_offset_minutes);
+
+// Opening hours for a place we only have a summary of, e.g. a favorite. They come
+// from an hours-only details call and are cached across launches. null means the
+// place has no hours listed.
+export const loadOpeningSchedule = async (placeId: string): Promise<OpeningSchedule | null> => {
+  const { data } = await getOpeningHoursCached(placeId);
+  return parseOpeningHours(data.opening_hours, data.utc_offset_minutes);
+};
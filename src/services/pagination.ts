@@ -0,0 +1,58 @@
+import { InvalidRequestError } from './apiErrors';
+import { sleep, withRetry } from '../utils/retry';
+
+// Google only accepts a next_page_token a couple of seconds after issuing it;
+// using it earlier fails with INVALID_REQUEST
+export const PAGE_TOKEN_DELAY_MS = 2000;
+
+export interface PageTokenManager {
+  setToken: (token?: string) => void;
+  hasNextPage: () => boolean;
+  // Fetch the next page once its token is valid, retrying INVALID_REQUEST in case
+  // it still wasn't. Resolves null when there's no next page.
+  fetchNext: <T>(fetchPage: (token: string) => Promise<T>) => Promise<T | null>;
+  reset: () => void;
+}
+
+interface PageTokenManagerOptions {
+  validityDelayMs?: number;
+  retries?: number;
+}
+
+export const createPageTokenManager = ({
+  validityDelayMs = PAGE_TOKEN_DELAY_MS,
+  retries = 3,
+}: PageTokenManagerOptions = {}): PageTokenManager => {
+  let token: string | undefined;
+  let issuedAt = 0;
+
+  return {
+    setToken: (next) => {
+      token = next;
+      issuedAt = Date.now();
+    },
+
+    hasNextPage: () => !!token,
+
+    fetchNext: async (fetchPage) => {
+      const current = token;
+      if (!current) {
+        return null;
+      }
+
+      await sleep(Math.max(0, issuedAt + validityDelayMs - Date.now()));
+      // A token that still isn't valid needs about the full delay again, so every
+      // retry waits at least that long
+      return withRetry(() => fetchPage(current), {
+        retries,
+        minDelayMs: validityDelayMs,
+        baseDelayMs: 500,
+        shouldRetry: error => error instanceof InvalidRequestError,
+      });
+    },
+
+    reset: () => {
+      token = undefined;
+    },
+  };
+};
@@ -0,0 +1,123 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ENV } from '../config/env';
+import { RestaurantFilters } from '../types/restaurant';
+import { DietaryRestriction } from '../utils/dietary';
+import { DistanceUnit } from '../utils/distance';
+
+// Standing preferences set on the Preferences screen, as opposed to the
+// filters tweaked from the Home screen
+export interface DiningProfile {
+  dietary: DietaryRestriction[];
+  // Never shown, whatever the filters say
+  dislikedCuisines: string[];
+  // What the Home filters start from and reset to
+  defaultPrice: string[];
+  defaultRadius: number; // meters
+}
+
+// Locally scheduled reminders, see services/notifications
+export interface NotificationSettings {
+  enabled: boolean;
+  // Daily nudge to find somewhere to eat
+  mealSuggestions: boolean;
+  lunchTime: string; // "HH:MM"
+  dinnerTime: string; // "HH:MM"
+  // A reminder whenever a favorite opens for the day
+  favoriteReopened: boolean;
+}
+
+export interface UserPreferences {
+  filters: RestaurantFilters;
+  distanceUnit: DistanceUnit;
+  // Passed restaurants stay out of the deck for this many days
+  hidePassedDays: number;
+  profile: DiningProfile;
+  notifications: NotificationSettings;
+}
+
+export const DEFAULT_FILTERS: RestaurantFilters = {
+  radius: ENV.DEFAULTS.SEARCH_RADIUS,
+  rating: 0,
+  price: [],
+};
+
+export const DEFAULT_PROFILE: DiningProfile = {
+  dietary: [],
+  dislikedCuisines: [],
+  defaultPrice: [],
+  defaultRadius: ENV.DEFAULTS.SEARCH_RADIUS,
+};
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  enabled: false,
+  mealSuggestions: true,
+  lunchTime: '12:00',
+  dinnerTime: '18:30',
+  favoriteReopened: false,
+};
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  filters: DEFAULT_FILTERS,
+  distanceUnit: 'mi',
+  hidePassedDays: 30,
+  profile: DEFAULT_PROFILE,
+  notifications: DEFAULT_NOTIFICATION_SETTINGS,
+};
+
+// The Home filters as they are when nothing has been changed from the profile
+export const filtersFromProfile = (profile: DiningProfile): RestaurantFilters => ({
+  ...DEFAULT_FILTERS,
+  radius: profile.defaultRadius,
+  price: profile.defaultPrice,
+});
+
+// Preferences are stored per account; the bare key holds the old device-wide ones
+const storageKey = (userId: string) => `${ENV.STORAGE_KEYS.USER_PREFERENCES}:${userId}`;
+
+const parsePreferences = (preferencesJson: string): UserPreferences => {
+  const stored = JSON.parse(preferencesJson);
+  return {
+    ...DEFAULT_PREFERENCES,
+    ...stored,
+    filters: { ...DEFAULT_FILTERS, ...stored.filters },
+    profile: { ...DEFAULT_PROFILE, ...stored.profile },
+    notifications: { ...DEFAULT_NOTIFICATION_SETTINGS, ...stored.notifications },
+  };
+};
+
+// Move the device-wide preferences to the first account that loads them
+const migrateLegacyPreferences = async (userId: string) => {
+  const legacyJson = await AsyncStorage.getItem(ENV.STORAGE_KEYS.USER_PREFERENCES);
+  if (!legacyJson) {
+    return DEFAULT_PREFERENCES;
+  }
+
+  await AsyncStorage.setItem(storageKey(userId), legacyJson);
+  await AsyncStorage.removeItem(ENV.STORAGE_KEYS.USER_PREFERENCES);
+  console.log('Migrated legacy preferences:', { userId });
+  return parsePreferences(legacyJson);
+};
+
+export const loadPreferences = async (userId: string): Promise<UserPreferences> => {
+  try {
+    const preferencesJson = await AsyncStorage.getItem(storageKey(userId));
+    return preferencesJson
+      ? parsePreferences(preferencesJson)
+      : await migrateLegacyPreferences(userId);
+  } catch (error) {
+    console.error('Error loading preferences:', error);
+    return DEFAULT_PREFERENCES;
+  }
+};
+
+export const savePreferences = async (userId: string, updates: Partial<UserPreferences>) => {
+  try {
+    const current = await loadPreferences(userId);
+    const updated = { ...current, ...updates };
+    await AsyncStorage.setItem(storageKey(userId), JSON.stringify(updated));
+    return updated;
+  } catch (error) {
+    console.error('Error saving preferences:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,102 @@
+import { toCategories } from '../../utils/cuisines';
+import { calculateDistance } from '../../utils/distance';
+import { RestaurantFixture, restaurantFixtures } from './fixtures/restaurants';
+import { RestaurantProvider } from './types';
+
+// Serves recorded restaurants so the app can run without network access.
+// Page tokens are offsets into the fixture list.
+export const createFixtureProvider = (
+  fixtures: RestaurantFixture[] = restaurantFixtures
+): RestaurantProvider => {
+  const findFixture = (placeId: string) => {
+    const fixture = fixtures.find(f => f.id === placeId);
+    if (!fixture) {
+      throw new Error('Failed to fetch restaurant details');
+    }
+    return fixture;
+  };
+
+  const toRestaurant = ({ photos, user_ratings_total, ...restaurant }: RestaurantFixture) => ({
+    ...restaurant,
+    categories: toCategories(restaurant.categories.map(category => category.alias), restaurant.name),
+  });
+
+  // Rough stand-in for the server-side keyword match: bare words must all match,
+  // and at least one "(a) OR (b)" alternative when there are any
+  const matchesKeyword = (fixture: RestaurantFixture, keyword?: string) => {
+    if (!keyword) {
+      return true;
+    }
+    const alternatives = (keyword.match(/\([^)]*\)/g) ?? [])
+      .map(term => term.replace(/[()]/g, '').trim().toLowerCase());
+    const required = keyword
+      .replace(/\([^)]*\)/g, ' ')
+      .replace(/\bOR\b/g, ' ')
+      .toLowerCase()
+      .split(/\s+/)
+      .filter(Boolean);
+    const haystack = [
+      fixture.name,
+      ...toRestaurant(fixture).categories.map(category => category.title),
+    ].join(' ').toLowerCase();
+    return required.every(term => haystack.includes(term)) &&
+      (alternatives.length === 0 || alternatives.some(term => haystack.includes(term)));
+  };
+
+  return {
+    name: 'fixtures',
+
+    searchRestaurants: async ({ latitude, longitude, pageSize, pageToken, keyword }) => {
+      const matching = fixtures.filter(fixture => matchesKeyword(fixture, keyword));
+      const offset = pageToken ? parseInt(pageToken, 10) : 0;
+      const page = matching.slice(offset, offset + pageSize);
+      const nextOffset = offset + page.length;
+
+      return {
+        results: page.map(fixture => {
+          const { opening_hours, reviews, utc_offset_minutes, ...restaurant } = toRestaurant(fixture);
+          return {
+            ...restaurant,
+            is_open_now: opening_hours?.open_now,
+            distance: calculateDistance(
+              latitude,
+              longitude,
+              fixture.coordinates.latitude,
+              fixture.coordinates.longitude
+            ),
+          };
+        }),
+        nextPageToken: nextOffset < matching.length ? String(nextOffset) : undefined,
+      };
+    },
+
+    getPlaceDetails: async (placeId) => {
+      const fixture = findFixture(placeId);
+      return {
+        formatted_phone_number: fixture.phone,
+        website: fixture.website,
+        opening_hours: fixture.opening_hours,
+        reviews: fixture.reviews,
+        user_ratings_total: fixture.user_ratings_total,
+        utc_offset_minutes: fixture.utc_offset_minutes,
+      };
+    },
+
+    getOpeningHours: async (placeId) => {
+      const fixture = findFixture(placeId);
+      return {
+        opening_hours: fixture.opening_hours,
+        utc_offset_minutes: fixture.utc_offset_minutes,
+      };
+    },
+
+    getRestaurantById: async (placeId) => {
+      const fixture = findFixture(placeId);
+      return {
+        ...toRestaurant(fixture),
+        photos: fixture.photos,
+        user_ratings_total: fixture.user_ratings_total,
+      };
+    },
+  };
+};
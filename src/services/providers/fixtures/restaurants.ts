@@ -0,0 +1,184 @@
+import { DetailedRestaurant, RestaurantPhoto } from '../../../types/restaurant';
+
+export interface RestaurantFixture extends DetailedRestaurant {
+  photos: RestaurantPhoto[];
+  user_ratings_total: number;
+}
+
+const image = (label: string, size = '800x600') =>
+  `https://via.placeholder.com/${size}?text=${encodeURIComponent(label)}`;
+
+const photo = (label: string): RestaurantPhoto => ({
+  url: image(label),
+  fullUrl: image(label, '1600x1200'),
+  attributions: [{ name: 'FlavorFinder' }],
+});
+
+const WEEK = (hours: string) =>
+  ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'].map(
+    day => `${day}: ${hours}`
+  );
+
+// The same hours every day of the week
+const DAILY = (open: string, close: string) =>
+  [0, 1, 2, 3, 4, 5, 6].map(day => ({ open: { day, time: open }, close: { day, time: close } }));
+
+// Pacific Daylight Time, as recorded
+const SF_UTC_OFFSET = -420;
+
+// Recorded from a nearby search around downtown San Francisco
+export const restaurantFixtures: RestaurantFixture[] = [
+  {
+    id: 'fixture-kin-khao',
+    name: 'Kin Khao',
+    image_url: image('Kin Khao'),
+    photos: [photo('Kin Khao 1'), photo('Kin Khao 2')],
+    rating: 4.4,
+    user_ratings_total: 1830,
+    utc_offset_minutes: SF_UTC_OFFSET,
+    price: '$$',
+    categories: [
+      { alias: 'thai_restaurant', title: 'Thai Restaurant' },
+      { alias: 'restaurant', title: 'Restaurant' },
+      { alias: 'food', title: 'Food' },
+    ],
+    location: { address1: '55 Cyril Magnin St, San Francisco', city: 'San Francisco', state: 'CA', zip_code: '94102' },
+    coordinates: { latitude: 37.7852, longitude: -122.4089 },
+    phone: '(415) 362-7456',
+    website: 'https://www.kinkhao.com/',
+    distance: 0,
+    opening_hours: { open_now: true, weekday_text: WEEK('11:30 AM – 9:30 PM'), periods: DAILY('1130', '2130') },
+    reviews: [
+      {
+        author_name: 'Dana P.',
+        rating: 5,
+        relative_time_description: 'a month ago',
+        text: 'The rabbit curry is worth the trip on its own.',
+      },
+    ],
+  },
+  {
+    id: 'fixture-tony-pizza',
+    name: "Tony's Pizza Napoletana",
+    image_url: image("Tony's Pizza"),
+    photos: [photo("Tony's Pizza 1")],
+    rating: 4.5,
+    user_ratings_total: 7420,
+    utc_offset_minutes: SF_UTC_OFFSET,
+    price: '$$',
+    categories: [
+      { alias: 'pizza_restaurant', title: 'Pizza Restaurant' },
+      { alias: 'restaurant', title: 'Restaurant' },
+      { alias: 'meal_takeaway', title: 'Meal Takeaway' },
+    ],
+    location: { address1: '1570 Stockton St, San Francisco', city: 'San Francisco', state: 'CA', zip_code: '94133' },
+    coordinates: { latitude: 37.8003, longitude: -122.4091 },
+    phone: '(415) 835-9888',
+    website: 'https://www.tonyspizzanapoletana.com/',
+    distance: 0,
+    opening_hours: { open_now: true, weekday_text: WEEK('12:00 – 10:00 PM'), periods: DAILY('1200', '2200') },
+    reviews: [
+      {
+        author_name: 'Chris L.',
+        rating: 4,
+        relative_time_description: '2 weeks ago',
+        text: 'Great margherita, expect a wait on weekends.',
+      },
+    ],
+  },
+  {
+    id: 'fixture-greens',
+    name: 'Greens Restaurant',
+    image_url: image('Greens'),
+    photos: [photo('Greens 1'), photo('Greens 2'), photo('Greens 3')],
+    rating: 4.5,
+    user_ratings_total: 2610,
+    utc_offset_minutes: SF_UTC_OFFSET,
+    price: '$$$',
+    categories: [
+      { alias: 'vegetarian_restaurant', title: 'Vegetarian Restaurant' },
+      { alias: 'restaurant', title: 'Restaurant' },
+    ],
+    location: { address1: '2 Marina Blvd, San Francisco', city: 'San Francisco', state: 'CA', zip_code: '94123' },
+    coordinates: { latitude: 37.8066, longitude: -122.4321 },
+    phone: '(415) 771-6222',
+    website: 'https://www.greensrestaurant.com/',
+    distance: 0,
+    opening_hours: { open_now: false, weekday_text: WEEK('5:00 – 9:00 PM'), periods: DAILY('1700', '2100') },
+    reviews: [],
+  },
+  {
+    id: 'fixture-la-taqueria',
+    name: 'La Taqueria',
+    image_url: image('La Taqueria'),
+    photos: [photo('La Taqueria 1')],
+    rating: 4.5,
+    user_ratings_total: 5120,
+    utc_offset_minutes: SF_UTC_OFFSET,
+    price: '$',
+    categories: [
+      { alias: 'mexican_restaurant', title: 'Mexican Restaurant' },
+      { alias: 'restaurant', title: 'Restaurant' },
+      { alias: 'meal_takeaway', title: 'Meal Takeaway' },
+    ],
+    location: { address1: '2889 Mission St, San Francisco', city: 'San Francisco', state: 'CA', zip_code: '94110' },
+    coordinates: { latitude: 37.7509, longitude: -122.4181 },
+    phone: '(415) 285-7117',
+    distance: 0,
+    opening_hours: { open_now: true, weekday_text: WEEK('11:00 AM – 8:45 PM'), periods: DAILY('1100', '2045') },
+    reviews: [
+      {
+        author_name: 'Sam R.',
+        rating: 5,
+        relative_time_description: '3 months ago',
+        text: 'Order it dorado style.',
+      },
+    ],
+  },
+  {
+    id: 'fixture-zuni',
+    name: 'Zuni Café',
+    image_url: image('Zuni Cafe'),
+    photos: [photo('Zuni Cafe 1'), photo('Zuni Cafe 2')],
+    rating: 4.3,
+    user_ratings_total: 2290,
+    utc_offset_minutes: SF_UTC_OFFSET,
+    price: '$$$',
+    categories: [
+      { alias: 'restaurant', title: 'Restaurant' },
+      { alias: 'bar', title: 'Bar' },
+    ],
+    location: { address1: '1658 Market St, San Francisco', city: 'San Francisco', state: 'CA', zip_code: '94102' },
+    coordinates: { latitude: 37.7735, longitude: -122.4216 },
+    phone: '(415) 552-2522',
+    website: 'https://zunicafe.com/',
+    distance: 0,
+    opening_hours: { open_now: false, weekday_text: WEEK('11:30 AM – 10:00 PM'), periods: DAILY('1130', '2200') },
+    reviews: [],
+  },
+  {
+    id: 'fixture-burma-superstar',
+    name: 'Burma Superstar',
+    image_url: image('Burma Superstar'),
+    photos: [photo('Burma Superstar 1')],
+    rating: 4.4,
+    user_ratings_total: 3950,
+    utc_offset_minutes: SF_UTC_OFFSET,
+    price: '$$',
+    categories: [{ alias: 'restaurant', title: 'Restaurant' }],
+    location: { address1: '309 Clement St, San Francisco', city: 'San Francisco', state: 'CA', zip_code: '94118' },
+    coordinates: { latitude: 37.7830, longitude: -122.4627 },
+    phone: '(415) 387-2147',
+    website: 'https://www.burmasuperstar.com/',
+    distance: 0,
+    opening_hours: { open_now: true, weekday_text: WEEK('11:30 AM – 9:00 PM'), periods: DAILY('1130', '2100') },
+    reviews: [
+      {
+        author_name: 'Alex K.',
+        rating: 4,
+        relative_time_description: 'a week ago',
+        text: 'Tea leaf salad lives up to the hype.',
+      },
+    ],
+  },
+];
@@ -0,0 +1,97 @@
+import { ENV } from '../../config/env';
+import { GoogleOpeningHours, GooglePlace, GooglePlacePhoto, LocatedPlace } from '../../types/googlePlaces';
+import {
+  DetailedRestaurant,
+  PhotoAttribution,
+  PlaceDetails,
+  PlaceHours,
+  PlaceOpeningHours,
+  RestaurantPhoto,
+} from '../../types/restaurant';
+import { toCategories } from '../../utils/cuisines';
+import { calculateDistance } from '../../utils/distance';
+
+const PLACEHOLDER_IMAGE = 'https://via.placeholder.com/400x300?text=No+Image';
+
+// The largest maxwidth the photo endpoint serves
+const MAX_PHOTO_WIDTH = 1600;
+
+const getPhotoUrl = (photoReference: string, maxWidth: number) =>
+  `${ENV.API.BASE_URL}/photo?maxwidth=${maxWidth}&photoreference=${photoReference}&key=${ENV.API.KEY}`;
+
+// html_attributions come as anchor tags, e.g. <a href="https://maps.google.com/...">Jane Doe</a>
+const parseAttribution = (html: string): PhotoAttribution => {
+  const href = html.match(/href="([^"]*)"/)?.[1];
+  const name = html.replace(/<[^>]*>/g, '').trim();
+  return { name, url: href };
+};
+
+const toPhoto = (photo: GooglePlacePhoto): RestaurantPhoto => ({
+  url: getPhotoUrl(photo.photo_reference, 800),
+  fullUrl: getPhotoUrl(photo.photo_reference, Math.min(photo.width || MAX_PHOTO_WIDTH, MAX_PHOTO_WIDTH)),
+  attributions: photo.html_attributions.map(parseAttribution),
+});
+
+// Search results only say whether the place is open, which isn't worth keeping as hours
+const toOpeningHours = (hours?: GoogleOpeningHours): PlaceOpeningHours | undefined =>
+  hours && (hours.weekday_text || hours.periods)
+    ? { open_now: hours.open_now ?? false, weekday_text: hours.weekday_text ?? [], periods: hours.periods }
+    : undefined;
+
+const utcOffsetMinutes = (place: GooglePlace) => place.utc_offset_minutes ?? place.utc_offset;
+
+interface NormalizeOptions {
+  // Details responses don't echo the place id unless it's in the field mask
+  id?: string;
+  // Where the user searched from, for the distance
+  origin?: { latitude: number; longitude: number };
+}
+
+// The one mapping from a validated Places result to our restaurant model, used for
+// search results and details alike. Fields the response didn't include stay undefined.
+export const toRestaurant = (
+  place: LocatedPlace,
+  { id, origin }: NormalizeOptions = {}
+): DetailedRestaurant => {
+  const { lat, lng } = place.geometry.location;
+  return {
+    id: id ?? place.place_id,
+    name: place.name,
+    image_url: place.photos?.[0] ? getPhotoUrl(place.photos[0].photo_reference, 400) : PLACEHOLDER_IMAGE,
+    rating: place.rating ?? 0,
+    price: place.price_level ? '$'.repeat(place.price_level) : undefined,
+    categories: toCategories(place.types ?? [], place.name),
+    location: {
+      address1: place.formatted_address ?? place.vicinity ?? '',
+      city: '',
+      state: '',
+      zip_code: '',
+    },
+    coordinates: { latitude: lat, longitude: lng },
+    // Details lookups have no user location
+    distance: origin ? calculateDistance(origin.latitude, origin.longitude, lat, lng) : 0,
+    is_open_now: place.opening_hours?.open_now,
+    phone: place.formatted_phone_number,
+    website: place.website,
+    opening_hours: toOpeningHours(place.opening_hours),
+    reviews: place.reviews,
+    photos: place.photos?.map(toPhoto),
+    user_ratings_total: place.user_ratings_total,
+    utc_offset_minutes: utcOffsetMinutes(place),
+  };
+};
+
+export const toPlaceHours = (place: GooglePlace): PlaceHours => ({
+  opening_hours: toOpeningHours(place.opening_hours),
+  utc_offset_minutes: utcOffsetMinutes(place),
+});
+
+// The contact and atmosphere subset, for details lookups without name or location
+export const toPlaceDetails = (place: GooglePlace): PlaceDetails => ({
+  formatted_phone_number: place.formatted_phone_number,
+  website: place.website,
+  opening_hours: toOpeningHours(place.opening_hours),
+  reviews: place.reviews,
+  user_ratings_total: place.user_ratings_total,
+  utc_offset_minutes: utcOffsetMinutes(place),
+});
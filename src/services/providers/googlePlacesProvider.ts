@@ -0,0 +1,132 @@
+import { ENV } from '../../config/env';
+import { ApiError, fromHttpStatus, fromPlacesStatus, NetworkError, toApiError } from '../apiErrors';
+import { createPlaceDetailsLoader } from './placeDetailsLoader';
+import { toPlaceDetails, toPlaceHours, toRestaurant } from './googlePlacesNormalizer';
+import { isLocatedPlace, parseDetailsResponse, parseNearbySearchResponse } from './googlePlacesSchema';
+import { RestaurantProvider } from './types';
+
+// Field masks for the details lookups. Concurrent lookups for one place are
+// merged into a single call by the loader below.
+const OPENING_HOURS_FIELDS = ['opening_hours', 'utc_offset'];
+
+const PLACE_DETAILS_FIELDS = [
+  'formatted_phone_number',
+  'website',
+  'opening_hours',
+  'reviews',
+  'user_ratings_total',
+  'utc_offset',
+];
+
+const RESTAURANT_FIELDS = [
+  ...PLACE_DETAILS_FIELDS,
+  'name',
+  'formatted_address',
+  'photos',
+  'price_level',
+  'rating',
+  'geometry',
+  'types',
+];
+
+// GET a Places endpoint. Only a rejected fetch is a NetworkError, so a bug in the
+// parsing that follows isn't retried or shown as being offline.
+const fetchPlaces = async (url: string) => {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (error) {
+    throw new NetworkError(error);
+  }
+  if (!response.ok) {
+    throw fromHttpStatus(response.status);
+  }
+  return response.json();
+};
+
+const fetchPlaceDetails = async (placeId: string, fields: string[]) => {
+  const data = parseDetailsResponse(await fetchPlaces(
+    `${ENV.API.BASE_URL}/details/json?place_id=${placeId}&key=${ENV.API.KEY}&fields=${fields.join(',')}`
+  ));
+
+  if (data.status !== 'OK') {
+    throw fromPlacesStatus(data.status, data.error_message);
+  }
+  if (!data.result) {
+    throw new ApiError('Failed to fetch place details');
+  }
+
+  return data.result;
+};
+
+export const placeDetailsLoader = createPlaceDetailsLoader(fetchPlaceDetails);
+
+export const googlePlacesProvider: RestaurantProvider = {
+  name: 'google',
+
+  // Get details for a single restaurant
+  getPlaceDetails: async (placeId) => {
+    try {
+      // A merged call may have returned more than we asked for
+      return toPlaceDetails(await placeDetailsLoader.load(placeId, PLACE_DETAILS_FIELDS));
+    } catch (error) {
+      console.error('Error fetching place details:', error);
+      throw toApiError(error);
+    }
+  },
+
+  // Only the Basic and Contact fields needed for open/closed status
+  getOpeningHours: async (placeId) => {
+    try {
+      return toPlaceHours(await placeDetailsLoader.load(placeId, OPENING_HOURS_FIELDS));
+    } catch (error) {
+      console.error('Error fetching opening hours:', error);
+      throw toApiError(error);
+    }
+  },
+
+  // Restaurant search function using Google Places API
+  searchRestaurants: async (params) => {
+    try {
+      const { latitude, longitude, radius, pageToken, keyword } = params;
+      const location = `${latitude},${longitude}`;
+      const type = 'restaurant';
+
+      const url = `${ENV.API.BASE_URL}/nearbysearch/json?location=${location}&radius=${radius}&type=${type}&key=${ENV.API.KEY}${keyword ? `&keyword=${encodeURIComponent(keyword)}` : ''}${pageToken ? `&pagetoken=${pageToken}` : ''}`;
+
+      console.log('Searching restaurants with URL:', url);
+
+      const data = parseNearbySearchResponse(await fetchPlaces(url));
+
+      if (data.status !== 'OK' && data.status !== 'ZERO_RESULTS') {
+        throw fromPlacesStatus(data.status, data.error_message);
+      }
+
+      const results = data.results.map(place => toRestaurant(place, { origin: { latitude, longitude } }));
+
+      return {
+        results,
+        nextPageToken: data.next_page_token,
+      };
+    } catch (error) {
+      console.error('Error searching restaurants:', error);
+      throw toApiError(error);
+    }
+  },
+
+  // Get a single restaurant by ID
+  getRestaurantById: async (placeId) => {
+    try {
+      const place = await placeDetailsLoader.load(placeId, RESTAURANT_FIELDS);
+      if (!isLocatedPlace(place)) {
+        throw new ApiError('Place details are missing a name or location');
+      }
+      return toRestaurant(place, { id: placeId });
+    } catch (error) {
+      console.error('Error fetching restaurant by ID:', error);
+      throw toApiError(error);
+    }
+  },
+
+  getBillingStats: () => placeDetailsLoader.getStats(),
+};
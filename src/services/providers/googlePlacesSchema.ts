@@ -0,0 +1,176 @@
+import {
+  GoogleOpeningHours,
+  GooglePlace,
+  GooglePlacePhoto,
+  GooglePlaceReview,
+  LocatedPlace,
+  NearbySearchResponse,
+  PlaceDetailsResponse,
+  PlacesStatus,
+} from '../../types/googlePlaces';
+import { PlaceOpeningPeriod } from '../../types/restaurant';
+
+// Runtime checks for Places responses. Required fields that are missing or malformed
+// reject the entry; optional ones are dropped, so one bad field can't break a card.
+
+const STATUSES: PlacesStatus[] = [
+  'OK',
+  'ZERO_RESULTS',
+  'INVALID_REQUEST',
+  'OVER_QUERY_LIMIT',
+  'REQUEST_DENIED',
+  'NOT_FOUND',
+  'UNKNOWN_ERROR',
+];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const optionalString = (value: unknown) => (isString(value) ? value : undefined);
+
+const optionalNumber = (value: unknown) => (isNumber(value) ? value : undefined);
+
+// Keep the entries of an array that parse, dropping the rest
+const parseList = <T>(value: unknown, parse: (item: unknown) => T | null): T[] | undefined =>
+  Array.isArray(value) ? value.map(parse).filter((item): item is T => item !== null) : undefined;
+
+const parsePhoto = (value: unknown): GooglePlacePhoto | null => {
+  if (!isObject(value) || !isString(value.photo_reference)) {
+    return null;
+  }
+  return {
+    photo_reference: value.photo_reference,
+    width: optionalNumber(value.width) ?? 0,
+    height: optionalNumber(value.height) ?? 0,
+    html_attributions: parseList(value.html_attributions, item => (isString(item) ? item : null)) ?? [],
+  };
+};
+
+const parseReview = (value: unknown): GooglePlaceReview | null => {
+  if (!isObject(value) || !isString(value.text)) {
+    return null;
+  }
+  return {
+    author_name: optionalString(value.author_name) ?? 'A Google user',
+    rating: optionalNumber(value.rating) ?? 0,
+    relative_time_description: optionalString(value.relative_time_description) ?? '',
+    text: value.text,
+  };
+};
+
+const parsePeriodTime = (value: unknown): PlaceOpeningPeriod['open'] | null => {
+  if (
+    !isObject(value)
+    || !isNumber(value.day) || value.day < 0 || value.day > 6
+    || !isString(value.time) || !/^\d{4}$/.test(value.time)
+  ) {
+    return null;
+  }
+  return { day: value.day, time: value.time };
+};
+
+const parsePeriod = (value: unknown): PlaceOpeningPeriod | null => {
+  if (!isObject(value)) {
+    return null;
+  }
+  const open = parsePeriodTime(value.open);
+  if (!open) {
+    return null;
+  }
+  if (value.close === undefined) {
+    return { open };
+  }
+  const close = parsePeriodTime(value.close);
+  return close ? { open, close } : null;
+};
+
+const parseOpeningHours = (value: unknown): GoogleOpeningHours | undefined => {
+  if (!isObject(value)) {
+    return undefined;
+  }
+  return {
+    open_now: typeof value.open_now === 'boolean' ? value.open_now : undefined,
+    weekday_text: parseList(value.weekday_text, item => (isString(item) ? item : null)),
+    periods: parseList(value.periods, parsePeriod),
+  };
+};
+
+export const parsePlace = (value: unknown): GooglePlace | null => {
+  if (!isObject(value)) {
+    return null;
+  }
+
+  const location = isObject(value.geometry) ? value.geometry.location : undefined;
+  const priceLevel = optionalNumber(value.price_level);
+
+  return {
+    place_id: optionalString(value.place_id),
+    name: optionalString(value.name),
+    geometry: isObject(location) && isNumber(location.lat) && isNumber(location.lng)
+      ? { location: { lat: location.lat, lng: location.lng } }
+      : undefined,
+    vicinity: optionalString(value.vicinity),
+    formatted_address: optionalString(value.formatted_address),
+    types: parseList(value.types, item => (isString(item) ? item : null)),
+    rating: optionalNumber(value.rating),
+    user_ratings_total: optionalNumber(value.user_ratings_total),
+    price_level: priceLevel !== undefined && priceLevel >= 0 && priceLevel <= 4 ? priceLevel : undefined,
+    photos: parseList(value.photos, parsePhoto),
+    opening_hours: parseOpeningHours(value.opening_hours),
+    formatted_phone_number: optionalString(value.formatted_phone_number),
+    website: optionalString(value.website),
+    reviews: parseList(value.reviews, parseReview),
+    utc_offset_minutes: optionalNumber(value.utc_offset_minutes),
+    utc_offset: optionalNumber(value.utc_offset),
+  };
+};
+
+export const isLocatedPlace = (place: GooglePlace | null): place is LocatedPlace =>
+  !!place && !!place.name && !!place.geometry;
+
+const isPlacesStatus = (value: unknown): value is PlacesStatus =>
+  STATUSES.some(status => status === value);
+
+const parseStatus = (value: Record<string, unknown>, endpoint: string): PlacesStatus => {
+  if (!isPlacesStatus(value.status)) {
+    throw new Error(`Unexpected ${endpoint} response status: ${String(value.status)}`);
+  }
+  return value.status;
+};
+
+export const parseNearbySearchResponse = (value: unknown): NearbySearchResponse => {
+  if (!isObject(value)) {
+    throw new Error('Malformed nearbysearch response');
+  }
+
+  const entries = Array.isArray(value.results) ? value.results : [];
+  const results = entries
+    .map(parsePlace)
+    .filter((place): place is LocatedPlace => isLocatedPlace(place) && !!place.place_id);
+  if (results.length < entries.length) {
+    console.warn(`Dropped ${entries.length - results.length} malformed search results`);
+  }
+
+  return {
+    status: parseStatus(value, 'nearbysearch'),
+    results,
+    next_page_token: optionalString(value.next_page_token),
+    error_message: optionalString(value.error_message),
+  };
+};
+
+export const parseDetailsResponse = (value: unknown): PlaceDetailsResponse => {
+  if (!isObject(value)) {
+    throw new Error('Malformed details response');
+  }
+  return {
+    status: parseStatus(value, 'details'),
+    result: parsePlace(value.result) ?? undefined,
+    error_message: optionalString(value.error_message),
+  };
+};
@@ -0,0 +1,28 @@
+import { ENV } from '../../config/env';
+import { createFixtureProvider } from './fixtureProvider';
+import { googlePlacesProvider } from './googlePlacesProvider';
+import { RestaurantProvider } from './types';
+
+export * from './types';
+export type { DetailsBillingStats } from './placeDetailsLoader';
+
+const createProvider = (name: string): RestaurantProvider => {
+  switch (name) {
+    case 'fixtures':
+      return createFixtureProvider();
+    case 'google':
+      return googlePlacesProvider;
+    default:
+      console.warn(`Unknown restaurant provider "${name}", falling back to Google Places`);
+      return googlePlacesProvider;
+  }
+};
+
+// Selected once at startup from ENV.API.PROVIDER
+let activeProvider: RestaurantProvider = createProvider(ENV.API.PROVIDER);
+
+export const getRestaurantProvider = () => activeProvider;
+
+export const setRestaurantProvider = (provider: RestaurantProvider) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,99 @@
+import { GooglePlace } from '../../types/googlePlaces';
+
+// Sends one Place Details request for the given fields and resolves with its result
+export type FetchPlaceDetails = (placeId: string, fields: string[]) => Promise<GooglePlace>;
+
+export interface DetailsBillingStats {
+  // Details lookups asked for by callers
+  requests: number;
+  // Billable calls actually sent, total and by field mask (sorted, comma-joined)
+  calls: number;
+  callsByMask: Record<string, number>;
+}
+
+export interface PlaceDetailsLoader {
+  load: (placeId: string, fields: string[]) => Promise<GooglePlace>;
+  getStats: () => DetailsBillingStats;
+  resetStats: () => void;
+}
+
+interface DetailsRequest {
+  fields: Set<string>;
+  promise: Promise<GooglePlace>;
+}
+
+// Requests for the same place made within this window go out as one call
+const BATCH_WINDOW_MS = 10;
+
+const emptyStats = (): DetailsBillingStats => ({ requests: 0, calls: 0, callsByMask: {} });
+
+// Keeps Places billing down by sharing details calls. A request is served by an
+// in-flight call that already covers its fields, otherwise it joins the batch being
+// collected for that place, whose field masks are merged into a single call.
+export const createPlaceDetailsLoader = (
+  fetchDetails: FetchPlaceDetails,
+  batchWindowMs: number = BATCH_WINDOW_MS
+): PlaceDetailsLoader => {
+  const inFlight = new Map<string, DetailsRequest[]>();
+  const queued = new Map<string, DetailsRequest>();
+  let stats = emptyStats();
+
+  const startBatch = (placeId: string) => {
+    let resolve: (result: GooglePlace) => void;
+    let reject: (error: unknown) => void;
+    const request: DetailsRequest = {
+      fields: new Set(),
+      promise: new Promise((res, rej) => {
+        resolve = res;
+        reject = rej;
+      }),
+    };
+    queued.set(placeId, request);
+
+    setTimeout(() => {
+      queued.delete(placeId);
+      inFlight.set(placeId, [...(inFlight.get(placeId) ?? []), request]);
+
+      const fields = Array.from(request.fields).sort();
+      const mask = fields.join(',');
+      stats.calls += 1;
+      stats.callsByMask[mask] = (stats.callsByMask[mask] ?? 0) + 1;
+
+      fetchDetails(placeId, fields)
+        .then(resolve, reject)
+        .finally(() => {
+          const remaining = (inFlight.get(placeId) ?? []).filter(r => r !== request);
+          if (remaining.length > 0) {
+            inFlight.set(placeId, remaining);
+          } else {
+            inFlight.delete(placeId);
+          }
+        });
+    }, batchWindowMs);
+
+    return request;
+  };
+
+  return {
+    load: (placeId, fields) => {
+      stats.requests += 1;
+
+      const covering = inFlight
+        .get(placeId)
+        ?.find(request => fields.every(field => request.fields.has(field)));
+      if (covering) {
+        return covering.promise;
+      }
+
+      const batch = queued.get(placeId) ?? startBatch(placeId);
+      fields.forEach(field => batch.fields.add(field));
+      return batch.promise;
+    },
+
+    getStats: () => ({ ...stats, callsByMask: { ...stats.callsByMask } }),
+
+    resetStats: () => {
+      stats = emptyStats();
+    },
+  };
+};
@@ -0,0 +1,36 @@
+import {
+  DetailedRestaurant,
+  PlaceDetails,
+  PlaceHours,
+  Restaurant,
+} from '../../types/restaurant';
+import { DetailsBillingStats } from './placeDetailsLoader';
+
+export interface SearchRestaurantsParams {
+  latitude: number;
+  longitude: number;
+  radius: number;
+  pageSize: number;
+  pageToken?: string;
+  // Free-text term the provider matches server-side, e.g. a cuisine
+  keyword?: string;
+}
+
+export interface SearchRestaurantsResult {
+  results: Restaurant[];
+  nextPageToken?: string;
+}
+
+// A source of restaurant data. Screens and hooks only talk to the active
+// provider through services/api.ts, so new sources can be added here.
+export interface RestaurantProvider {
+  name: string;
+  searchRestaurants: (params: SearchRestaurantsParams) => Promise<SearchRestaurantsResult>;
+  getPlaceDetails: (placeId: string) => Promise<PlaceDetails>;
+  // Opening hours alone, which bill at a lower rate than the full details
+  getOpeningHours: (placeId: string) => Promise<PlaceHours>;
+  // Everything the detail screen shows, in a single call
+  getRestaurantById: (placeId: string) => Promise<DetailedRestaurant>;
+  // Usage of billable details calls, for providers that are billed per call
+  getBillingStats?: () => DetailsBillingStats;
+}
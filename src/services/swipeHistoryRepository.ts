@@ -0,0 +1,90 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ENV } from '../config/env';
+import { Restaurant } from '../types/restaurant';
+
+export type SwipeDecision = 'liked' | 'passed';
+
+export interface SwipeRecord {
+  restaurant: Restaurant;
+  decision: SwipeDecision;
+  timestamp: number;
+}
+
+export type SwipeHistoryListener = (history: SwipeRecord[]) => void;
+
+export interface SwipeHistoryRepository {
+  // Newest first, at most one record per restaurant
+  getAll: (userId: string) => Promise<SwipeRecord[]>;
+  record: (userId: string, restaurant: Restaurant, decision: SwipeDecision) => Promise<SwipeRecord[]>;
+  remove: (userId: string, restaurantId: string) => Promise<SwipeRecord[]>;
+  subscribe: (userId: string, listener: SwipeHistoryListener) => () => void;
+  clearCache: () => void;
+}
+
+// Oldest decisions are dropped past this point
+const MAX_RECORDS = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const storageKey = (userId: string) => `${ENV.STORAGE_KEYS.SWIPE_HISTORY}:${userId}`;
+
+const cache = new Map<string, SwipeRecord[]>();
+const listeners = new Map<string, Set<SwipeHistoryListener>>();
+
+const save = async (userId: string, history: SwipeRecord[]) => {
+  cache.set(userId, history);
+  listeners.get(userId)?.forEach(listener => listener(history));
+  await AsyncStorage.setItem(storageKey(userId), JSON.stringify(history));
+};
+
+// Whether a pass still keeps the restaurant out of the deck
+export const isPassHidden = (record: SwipeRecord, hidePassedDays: number, now: number = Date.now()) =>
+  record.decision === 'passed' && now - record.timestamp < hidePassedDays * DAY_MS;
+
+export const swipeHistoryRepository: SwipeHistoryRepository = {
+  getAll: async (userId) => {
+    const cached = cache.get(userId);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const historyJson = await AsyncStorage.getItem(storageKey(userId));
+      const history: SwipeRecord[] = historyJson ? JSON.parse(historyJson) : [];
+      cache.set(userId, history);
+      return history;
+    } catch (error) {
+      console.error('Error loading swipe history:', error);
+      throw error;
+    }
+  },
+
+  record: async (userId, restaurant, decision) => {
+    const history = await swipeHistoryRepository.getAll(userId);
+    const updated = [
+      { restaurant, decision, timestamp: Date.now() },
+      ...history.filter(entry => entry.restaurant.id !== restaurant.id),
+    ].slice(0, MAX_RECORDS);
+    await save(userId, updated);
+    return updated;
+  },
+
+  remove: async (userId, restaurantId) => {
+    const history = await swipeHistoryRepository.getAll(userId);
+    const updated = history.filter(entry => entry.restaurant.id !== restaurantId);
+    await save(userId, updated);
+    return updated;
+  },
+
+  subscribe: (userId, listener) => {
+    const userListeners = listeners.get(userId) ?? new Set<SwipeHistoryListener>();
+    userListeners.add(listener);
+    listeners.set(userId, userListeners);
+    return () => {
+      userListeners.delete(listener);
+    };
+  },
+
+  clearCache: () => {
+    cache.clear();
+  },
+};
@@ -0,0 +1,85 @@
+import { PlaceOpeningPeriod } from './restaurant';
+
+// Response shapes of the Places web service (nearbysearch and details), limited to
+// the fields we request. See services/providers/googlePlacesSchema for validation.
+
+export type PlacesStatus =
+  | 'OK'
+  | 'ZERO_RESULTS'
+  | 'INVALID_REQUEST'
+  | 'OVER_QUERY_LIMIT'
+  | 'REQUEST_DENIED'
+  | 'NOT_FOUND'
+  | 'UNKNOWN_ERROR';
+
+export interface GooglePlacePhoto {
+  photo_reference: string;
+  width: number;
+  height: number;
+  // Anchor tags crediting the photographer
+  html_attributions: string[];
+}
+
+export interface GoogleLatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface GooglePlaceGeometry {
+  location: GoogleLatLng;
+}
+
+export interface GoogleOpeningHours {
+  open_now?: boolean;
+  weekday_text?: string[];
+  periods?: PlaceOpeningPeriod[];
+}
+
+export interface GooglePlaceReview {
+  author_name: string;
+  rating: number;
+  relative_time_description: string;
+  text: string;
+}
+
+// Every field is optional because a details call only returns what its field mask asked for
+export interface GooglePlace {
+  place_id?: string;
+  name?: string;
+  geometry?: GooglePlaceGeometry;
+  // Short address from nearbysearch, full one from details
+  vicinity?: string;
+  formatted_address?: string;
+  types?: string[];
+  rating?: number;
+  user_ratings_total?: number;
+  // 0 (free) to 4 (very expensive)
+  price_level?: number;
+  photos?: GooglePlacePhoto[];
+  opening_hours?: GoogleOpeningHours;
+  formatted_phone_number?: string;
+  website?: string;
+  reviews?: GooglePlaceReview[];
+  // Requested as utc_offset; older responses only have utc_offset
+  utc_offset_minutes?: number;
+  utc_offset?: number;
+}
+
+// A place with enough to be shown as a restaurant
+export interface LocatedPlace extends GooglePlace {
+  name: string;
+  geometry: GooglePlaceGeometry;
+}
+
+export interface NearbySearchResponse {
+  status: PlacesStatus;
+  results: LocatedPlace[];
+  next_page_token?: string;
+  error_message?: string;
+}
+
+export interface PlaceDetailsResponse {
+  status: PlacesStatus;
+  result?: GooglePlace;
+  error_message?: string;
+}
@@ -0,0 +1,90 @@
+export interface Restaurant {
+  id: string;
+  name: string;
+  image_url: string;
+  rating: number;
+  price?: string;
+  categories: Array<{ alias: string; title: string }>;
+  location: {
+    address1: string;
+    city: string;
+    state: string;
+    zip_code: string;
+  };
+  coordinates: {
+    latitude: number;
+    longitude: number;
+  };
+  phone?: string;
+  distance: number; // km from the user, see utils/distance
+  is_open_now?: boolean;
+  website?: string;
+}
+
+export interface PlaceReview {
+  author_name: string;
+  rating: number;
+  relative_time_description: string;
+  text: string;
+}
+
+// One opening interval as the Places API reports it: day 0 is Sunday, time is "HHMM"
+// in the place's local time. A place open around the clock has no close.
+export interface PlaceOpeningPeriod {
+  open: { day: number; time: string };
+  close?: { day: number; time: string };
+}
+
+export interface PlaceOpeningHours {
+  // Only true when it was fetched; utils/openingHours works it out from periods instead
+  open_now: boolean;
+  weekday_text: string[];
+  periods?: PlaceOpeningPeriod[];
+}
+
+// Contact and atmosphere fields for a single place
+export interface PlaceDetails {
+  formatted_phone_number?: string;
+  website?: string;
+  opening_hours?: PlaceOpeningHours;
+  reviews?: PlaceReview[];
+  user_ratings_total?: number;
+  utc_offset_minutes?: number;
+}
+
+// Just what's needed to work out whether a place is open
+export type PlaceHours = Pick<PlaceDetails, 'opening_hours' | 'utc_offset_minutes'>;
+
+// Credit the Places API requires us to show next to a photo
+export interface PhotoAttribution {
+  name: string;
+  url?: string;
+}
+
+export interface RestaurantPhoto {
+  url: string;
+  // Larger variant for the full-screen viewer, only loaded when it's opened
+  fullUrl?: string;
+  attributions?: PhotoAttribution[];
+}
+
+// A restaurant looked up by id, including the fields only the details call returns
+export interface DetailedRestaurant extends Restaurant {
+  opening_hours?: PlaceOpeningHours;
+  reviews?: PlaceReview[];
+  // Full photo set for the gallery
+  photos?: RestaurantPhoto[];
+  user_ratings_total?: number;
+  // The place's time zone, for reading its opening periods
+  utc_offset_minutes?: number;
+}
+
+// Search filters chosen in the Home filter modal
+export interface RestaurantFilters {
+  radius?: number; // meters
+  rating?: number;
+  price?: string[];
+  // Cuisine ids from utils/cuisines
+  includeCuisines?: string[];
+  excludeCuisines?: string[];
+}
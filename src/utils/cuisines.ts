@@ -0,0 +1,66 @@
+export interface Cuisine {
+  id: string;
+  label: string;
+  // Places types that identify the cuisine (newer Places data reports these)
+  placeTypes: string[];
+  // Terms matched against place names and sent as the search keyword
+  keywords: string[];
+}
+
+export const CUISINES: Cuisine[] = [
+  { id: 'american', label: 'American', placeTypes: ['american_restaurant'], keywords: ['american', 'diner', 'grill'] },
+  { id: 'burgers', label: 'Burgers', placeTypes: ['hamburger_restaurant'], keywords: ['burger'] },
+  { id: 'cafe', label: 'Café', placeTypes: ['cafe', 'coffee_shop'], keywords: ['cafe', 'café', 'coffee'] },
+  { id: 'chinese', label: 'Chinese', placeTypes: ['chinese_restaurant'], keywords: ['chinese', 'dim sum', 'szechuan'] },
+  { id: 'indian', label: 'Indian', placeTypes: ['indian_restaurant'], keywords: ['indian', 'curry', 'tandoor'] },
+  { id: 'italian', label: 'Italian', placeTypes: ['italian_restaurant'], keywords: ['italian', 'trattoria', 'osteria', 'pasta'] },
+  { id: 'japanese', label: 'Japanese', placeTypes: ['japanese_restaurant', 'sushi_restaurant', 'ramen_restaurant'], keywords: ['japanese', 'sushi', 'ramen', 'izakaya'] },
+  { id: 'korean', label: 'Korean', placeTypes: ['korean_restaurant'], keywords: ['korean', 'bbq'] },
+  { id: 'mediterranean', label: 'Mediterranean', placeTypes: ['mediterranean_restaurant', 'greek_restaurant', 'middle_eastern_restaurant'], keywords: ['mediterranean', 'greek', 'falafel', 'shawarma'] },
+  { id: 'mexican', label: 'Mexican', placeTypes: ['mexican_restaurant'], keywords: ['mexican', 'taqueria', 'taco', 'burrito'] },
+  { id: 'pizza', label: 'Pizza', placeTypes: ['pizza_restaurant'], keywords: ['pizza', 'pizzeria'] },
+  { id: 'seafood', label: 'Seafood', placeTypes: ['seafood_restaurant'], keywords: ['seafood', 'fish', 'oyster'] },
+  { id: 'thai', label: 'Thai', placeTypes: ['thai_restaurant'], keywords: ['thai'] },
+  { id: 'vegan', label: 'Vegan', placeTypes: ['vegan_restaurant'], keywords: ['vegan', 'plant based'] },
+  { id: 'vegetarian', label: 'Vegetarian', placeTypes: ['vegetarian_restaurant'], keywords: ['vegetarian', 'veggie'] },
+  { id: 'vietnamese', label: 'Vietnamese', placeTypes: ['vietnamese_restaurant'], keywords: ['vietnamese', 'pho', 'banh mi'] },
+];
+
+const CUISINE_IDS = new Set(CUISINES.map(cuisine => cuisine.id));
+
+export const getCuisine = (id: string) => CUISINES.find(cuisine => cuisine.id === id);
+
+// Work out which cuisines a place serves from its Places types and name
+export const detectCuisines = (types: string[] = [], name: string = '') => {
+  const lowerName = name.toLowerCase();
+  return CUISINES.filter(cuisine =>
+    cuisine.placeTypes.some(type => types.includes(type)) ||
+    cuisine.keywords.some(keyword => lowerName.includes(keyword))
+  );
+};
+
+const formatType = (type: string) =>
+  type.split('_').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' ');
+
+// Build Restaurant.categories: detected cuisines first, then the raw Places types
+export const toCategories = (types: string[] = [], name: string = '') => [
+  ...detectCuisines(types, name).map(cuisine => ({ alias: cuisine.id, title: cuisine.label })),
+  ...types.map(type => ({ alias: type, title: formatType(type) })),
+];
+
+// Keyword for a server-side search that matches any of the given cuisines
+export const buildCuisineKeyword = (cuisineIds: string[] = []) => {
+  const terms = cuisineIds
+    .map(id => getCuisine(id)?.keywords[0])
+    .filter((term): term is string => !!term);
+
+  if (terms.length === 0) {
+    return undefined;
+  }
+  return terms.length === 1 ? terms[0] : terms.map(term => `(${term})`).join(' OR ');
+};
+
+export const hasExcludedCuisine = (
+  categories: Array<{ alias: string }> = [],
+  excludeCuisines: string[] = []
+) => categories.some(category => CUISINE_IDS.has(category.alias) && excludeCuisines.includes(category.alias));
@@ -0,0 +1,44 @@
+import { buildCuisineKeyword } from './cuisines';
+
+export type DietaryRestriction = 'vegetarian' | 'vegan' | 'gluten_free' | 'halal' | 'kosher';
+
+export interface DietaryOption {
+  id: DietaryRestriction;
+  label: string;
+  // Added to the search keyword; Places has no structured dietary data
+  keyword: string;
+}
+
+export const DIETARY_OPTIONS: DietaryOption[] = [
+  { id: 'vegetarian', label: 'Vegetarian', keyword: 'vegetarian' },
+  { id: 'vegan', label: 'Vegan', keyword: 'vegan' },
+  { id: 'gluten_free', label: 'Gluten-free', keyword: 'gluten free' },
+  { id: 'halal', label: 'Halal', keyword: 'halal' },
+  { id: 'kosher', label: 'Kosher', keyword: 'kosher' },
+];
+
+// Vegan places also suit vegetarians, so only the stricter term is searched for
+const IMPLIED_BY: Partial<Record<DietaryRestriction, DietaryRestriction>> = {
+  vegetarian: 'vegan',
+};
+
+export const getDietaryOption = (id: DietaryRestriction) =>
+  DIETARY_OPTIONS.find(option => option.id === id);
+
+// Search keyword for the selected cuisines that every dietary need must also match,
+// e.g. "halal (thai) OR (pizza)"
+export const buildSearchKeyword = (
+  includeCuisines: string[] = [],
+  dietary: DietaryRestriction[] = []
+) => {
+  const dietaryTerms = dietary
+    .filter(id => {
+      const stricter = IMPLIED_BY[id];
+      return !stricter || !dietary.includes(stricter);
+    })
+    .map(id => getDietaryOption(id)?.keyword)
+    .filter((term): term is string => !!term);
+
+  const terms = [...dietaryTerms, buildCuisineKeyword(includeCuisines)].filter(Boolean);
+  return terms.length > 0 ? terms.join(' ') : undefined;
+};
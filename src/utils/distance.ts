@@ -0,0 +1,35 @@
+// Helper function to calculate distance between two points using Haversine formula
+export const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+  const R = 6371; // Radius of the earth in km
+  const dLat = deg2rad(lat2 - lat1);
+  const dLon = deg2rad(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(deg2rad(lat1)) * Math.cos(deg2rad(lat2)) *
+    Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  const d = R * c; // Distance in km
+  return d;
+};
+
+const deg2rad = (deg: number): number => {
+  return deg * (Math.PI / 180);
+};
+
+export type DistanceUnit = 'mi' | 'km';
+
+const KM_PER_MILE = 1.609344;
+
+export const kmToUnit = (km: number, unit: DistanceUnit) =>
+  unit === 'mi' ? km / KM_PER_MILE : km;
+
+export const unitToKm = (value: number, unit: DistanceUnit) =>
+  unit === 'mi' ? value * KM_PER_MILE : value;
+
+// Restaurant.distance is in km; this is the only place it gets converted for display
+export const formatDistance = (km: number, unit: DistanceUnit) =>
+  `${kmToUnit(km, unit).toFixed(1)} ${unit === 'mi' ? 'mi' : 'km'}`;
+
+// Search radii are in meters, as the Places API expects
+export const formatRadius = (meters: number, unit: DistanceUnit) =>
+  `${Math.round(kmToUnit(meters / 1000, unit))} ${unit === 'mi' ? 'mi' : 'km'}`;
@@ -0,0 +1,145 @@
+import { PlaceOpeningHours } from '../types/restaurant';
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// How close to closing time a place counts as "closes soon"
+export const CLOSES_SOON_MINUTES = 60;
+
+// Minutes since Sunday 00:00 in the place's local time. An interval that runs past
+// Saturday midnight has an end beyond one week.
+export interface OpeningInterval {
+  start: number;
+  end: number;
+}
+
+export interface OpeningSchedule {
+  alwaysOpen: boolean;
+  intervals: OpeningInterval[];
+  // The place's offset from UTC; without it we assume the device's time zone
+  utcOffsetMinutes?: number;
+}
+
+export type OpenState = 'open' | 'closes_soon' | 'closed';
+
+export interface OpenStatus {
+  state: OpenState;
+  alwaysOpen?: boolean;
+  // Minutes until the place next opens or closes; undefined if it never does
+  minutesUntilChange?: number;
+  // Place-local day (0 = Sunday) and minute of day of that change
+  changesAt?: { day: number; minute: number };
+}
+
+const parseTime = (day: number, time: string) =>
+  day * MINUTES_PER_DAY + parseInt(time.slice(0, 2), 10) * 60 + parseInt(time.slice(2), 10);
+
+// Build a schedule from the details call's opening_hours. Returns null when the
+// response has no periods to compute from.
+export const parseOpeningHours = (
+  hours: PlaceOpeningHours | undefined,
+  utcOffsetMinutes?: number
+): OpeningSchedule | null => {
+  if (!hours?.periods) {
+    return null;
+  }
+
+  // Open around the clock is reported as a single period with no close
+  const alwaysOpen = hours.periods.some(period => !period.close);
+  const intervals = hours.periods
+    .filter(period => period.close)
+    .map(period => {
+      const start = parseTime(period.open.day, period.open.time);
+      const end = parseTime(period.close.day, period.close.time);
+      return { start, end: end > start ? end : end + MINUTES_PER_WEEK };
+    })
+    .sort((a, b) => a.start - b.start);
+
+  return { alwaysOpen, intervals, utcOffsetMinutes };
+};
+
+// The current minute of the week in the place's time zone
+export const getPlaceMinuteOfWeek = (now: Date, utcOffsetMinutes?: number) => {
+  if (utcOffsetMinutes === undefined) {
+    return now.getDay() * MINUTES_PER_DAY + now.getHours() * 60 + now.getMinutes();
+  }
+  const local = new Date(now.getTime() + utcOffsetMinutes * 60 * 1000);
+  return local.getUTCDay() * MINUTES_PER_DAY + local.getUTCHours() * 60 + local.getUTCMinutes();
+};
+
+const toChange = (minuteOfWeek: number) => {
+  const wrapped = minuteOfWeek % MINUTES_PER_WEEK;
+  return { day: Math.floor(wrapped / MINUTES_PER_DAY), minute: wrapped % MINUTES_PER_DAY };
+};
+
+export const getOpenStatus = (schedule: OpeningSchedule, now: Date = new Date()): OpenStatus => {
+  if (schedule.alwaysOpen) {
+    return { state: 'open', alwaysOpen: true };
+  }
+
+  const current = getPlaceMinuteOfWeek(now, schedule.utcOffsetMinutes);
+
+  for (const { start, end } of schedule.intervals) {
+    // Check this week and, for intervals spilling past Saturday, last week's tail
+    for (const t of [current, current + MINUTES_PER_WEEK]) {
+      if (t >= start && t < end) {
+        const minutesUntilChange = end - t;
+        return {
+          state: minutesUntilChange <= CLOSES_SOON_MINUTES ? 'closes_soon' : 'open',
+          minutesUntilChange,
+          changesAt: toChange(end),
+        };
+      }
+    }
+  }
+
+  if (schedule.intervals.length === 0) {
+    return { state: 'closed' };
+  }
+
+  const minutesUntilChange = Math.min(
+    ...schedule.intervals.map(({ start }) =>
+      (((start - current) % MINUTES_PER_WEEK) + MINUTES_PER_WEEK) % MINUTES_PER_WEEK
+    )
+  );
+  return {
+    state: 'closed',
+    minutesUntilChange,
+    changesAt: toChange(current + minutesUntilChange),
+  };
+};
+
+export const formatMinuteOfDay = (minute: number) => {
+  const hour = Math.floor(minute / 60);
+  const suffix = hour < 12 ? 'AM' : 'PM';
+  return `${hour % 12 || 12}:${(minute % 60).toString().padStart(2, '0')} ${suffix}`;
+};
+
+// e.g. "Open until 9:30 PM", "Closes in 20 min", "Opens 11:30 AM", "Opens Tue 11:30 AM"
+export const formatOpenStatus = ({ state, alwaysOpen, minutesUntilChange, changesAt }: OpenStatus) => {
+  if (alwaysOpen) {
+    return 'Open 24 hours';
+  }
+  // No times to show, e.g. a status from search results or a place that never opens
+  if (!changesAt) {
+    return state === 'closed' ? 'Closed' : 'Open Now';
+  }
+
+  const time = formatMinuteOfDay(changesAt.minute);
+  if (state === 'closes_soon') {
+    return `Closes in ${minutesUntilChange} min`;
+  }
+  if (state === 'open') {
+    return `Open until ${time}`;
+  }
+
+  // The change is later today if it's no further away than its own time of day
+  if (minutesUntilChange <= changesAt.minute) {
+    return `Opens ${time}`;
+  }
+  if (minutesUntilChange <= changesAt.minute + MINUTES_PER_DAY) {
+    return `Opens tomorrow ${time}`;
+  }
+  return `Opens ${DAY_NAMES[changesAt.day]} ${time}`;
+};
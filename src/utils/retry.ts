@@ -0,0 +1,38 @@
+export interface RetryOptions {
+  // Attempts after the first one
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Waited before every retry, with the jittered backoff on top
+  minDelayMs?: number;
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+}
+
+export const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// "Full jitter": a random wait up to the exponential cap, so clients that failed
+// together don't all retry together
+export const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number) =>
+  Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+
+export const withRetry = async <T>(
+  task: () => Promise<T>,
+  {
+    retries = 3,
+    baseDelayMs = 500,
+    maxDelayMs = 8000,
+    minDelayMs = 0,
+    shouldRetry = () => true,
+  }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (error) {
+      if (attempt >= retries || !shouldRetry(error, attempt)) {
+        throw error;
+      }
+      await sleep(minDelayMs + backoffDelay(attempt, baseDelayMs, maxDelayMs));
+    }
+  }
+};
@@ -0,0 +1,53 @@
+// Form rules shared by the auth and profile screens. Each returns an error
+// message, or an empty string when the value is valid.
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const MIN_USERNAME_LENGTH = 3;
+export const MIN_PASSWORD_LENGTH = 6;
+
+export const validateUsername = (username: string) => {
+  if (!username.trim()) {
+    return 'Username is required';
+  }
+  if (username.trim().length < MIN_USERNAME_LENGTH) {
+    return `Username must be at least ${MIN_USERNAME_LENGTH} characters`;
+  }
+  return '';
+};
+
+export const validateEmail = (email: string) => {
+  if (!email.trim()) {
+    return 'Email is required';
+  }
+  if (!EMAIL_REGEX.test(email.trim())) {
+    return 'Invalid email format';
+  }
+  return '';
+};
+
+// Strength rules for new passwords
+export const validateNewPassword = (password: string) => {
+  if (!password) {
+    return 'Password is required';
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+  return '';
+};
+
+export const validatePasswordConfirmation = (password: string, confirmPassword: string) => {
+  if (password !== confirmPassword) {
+    return 'Passwords do not match';
+  }
+  return '';
+};
+
+// Sign in only checks presence, so older accounts with shorter passwords still work
+export const validateRequired = (value: string, label: string) => {
+  if (!value) {
+    return `${label} is required`;
+  }
+  return '';
+};